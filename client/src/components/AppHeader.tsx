@@ -1,11 +1,16 @@
 import React from "react";
 import { Link } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { keyNotationLabels } from "@/lib/audio";
+import { keyNotations, type KeyNotation } from "@shared/schema";
 
 interface AppHeaderProps {
   title: string;
 }
 
 const AppHeader: React.FC<AppHeaderProps> = ({ title }) => {
+  const { user, logoutMutation, updateUserMutation } = useAuth();
+
   return (
     <header className="bg-gradient-to-r from-primary to-purple-600 text-white shadow-md">
       <div className="container mx-auto px-4 py-4 flex justify-between items-center">
@@ -15,10 +20,41 @@ const AppHeader: React.FC<AppHeaderProps> = ({ title }) => {
             <h1 className="text-2xl font-bold cursor-pointer">{title}</h1>
           </Link>
         </div>
-        <div>
+        <div className="flex items-center gap-3">
           <span className="hidden md:inline-block bg-white/10 px-3 py-1 rounded-full text-sm font-medium">
             AI-Powered Extended Mix Creator
           </span>
+          {user && (
+            <>
+              <label className="flex items-center gap-1 text-sm">
+                <span className="material-icons text-sm">music_note</span>
+                <select
+                  aria-label="Key notation"
+                  className="bg-white/10 rounded-full px-2 py-1 text-sm font-medium"
+                  value={user.keyNotation}
+                  onChange={(e) =>
+                    updateUserMutation.mutate({ keyNotation: e.target.value as KeyNotation })
+                  }
+                  disabled={updateUserMutation.isPending}
+                >
+                  {keyNotations.map((notation) => (
+                    <option key={notation} value={notation} className="text-gray-900">
+                      {keyNotationLabels[notation]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <span className="text-sm font-medium">{user.username}</span>
+              <button
+                className="flex items-center gap-1 bg-white/10 hover:bg-white/20 px-3 py-1 rounded-full text-sm font-medium disabled:opacity-50"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+              >
+                <span className="material-icons text-sm">logout</span>
+                Sign Out
+              </button>
+            </>
+          )}
         </div>
       </div>
     </header>
@@ -0,0 +1,290 @@
+/** @format */
+
+import React, { useState } from "react";
+import {
+	Arrangement,
+	ArrangementBlock,
+	ArrangementStem,
+	TempoMap,
+	arrangementStems,
+} from "@shared/schema";
+import {
+	calculateSectionDuration,
+	countBars,
+	formatDuration,
+} from "@/lib/audio";
+
+type Section = "intro" | "outro";
+
+// What is being dragged: a new block from the palette, or an existing block
+type DragSource =
+	| { from: "palette"; stem: ArrangementStem }
+	| { from: Section; index: number };
+
+interface ArrangementEditorProps {
+	arrangement: Required<Arrangement>;
+	introLength: number;
+	outroLength: number;
+	tempo: number | TempoMap | null; // the track's, for section durations; null when unknown
+	vocalsAllowed: boolean; // vocals blocks need the "full" vocal mode
+	disabled?: boolean;
+	onChange: (arrangement: Required<Arrangement>) => void;
+}
+
+const stemStyles: Record<ArrangementStem, string> = {
+	drums: "bg-emerald-100 border-emerald-300 text-emerald-900",
+	bass: "bg-blue-100 border-blue-300 text-blue-900",
+	other: "bg-purple-100 border-purple-300 text-purple-900",
+	vocals: "bg-pink-100 border-pink-300 text-pink-900",
+};
+
+const NEW_BLOCK_BARS = 4;
+
+/**
+ * Drag-and-drop timelines for the intro and outro. Blocks can be reordered,
+ * moved between sections or dropped in from the stem palette; each one has
+ * its own stem, length in bars and gain.
+ */
+const ArrangementEditor: React.FC<ArrangementEditorProps> = ({
+	arrangement,
+	introLength,
+	outroLength,
+	tempo,
+	vocalsAllowed,
+	disabled = false,
+	onChange,
+}) => {
+	const [dragSource, setDragSource] = useState<DragSource | null>(null);
+	const [dropTarget, setDropTarget] = useState<{
+		section: Section;
+		index: number;
+	} | null>(null);
+
+	const availableStems = arrangementStems.filter(
+		(stem) => vocalsAllowed || stem !== "vocals"
+	);
+
+	const updateBlock = (
+		section: Section,
+		index: number,
+		update: Partial<ArrangementBlock>
+	) => {
+		onChange({
+			...arrangement,
+			[section]: arrangement[section].map((block, i) =>
+				i === index ? { ...block, ...update } : block
+			),
+		});
+	};
+
+	const removeBlock = (section: Section, index: number) => {
+		onChange({
+			...arrangement,
+			[section]: arrangement[section].filter((_, i) => i !== index),
+		});
+	};
+
+	// Insert the dragged block before `index` of `section`
+	const dropBlock = (section: Section, index: number) => {
+		if (!dragSource || disabled) return;
+
+		const next = {
+			intro: [...arrangement.intro],
+			outro: [...arrangement.outro],
+		};
+		let block: ArrangementBlock;
+		let targetIndex = index;
+
+		if (dragSource.from === "palette") {
+			block = { stem: dragSource.stem, bars: NEW_BLOCK_BARS, gain: 0 };
+		} else {
+			[block] = next[dragSource.from].splice(dragSource.index, 1);
+			if (dragSource.from === section && dragSource.index < index) {
+				targetIndex--;
+			}
+		}
+
+		next[section].splice(targetIndex, 0, block);
+		onChange(next);
+		setDragSource(null);
+		setDropTarget(null);
+	};
+
+	const handleDragOver = (
+		e: React.DragEvent,
+		section: Section,
+		index: number
+	) => {
+		if (!dragSource || disabled) return;
+		e.preventDefault();
+		e.stopPropagation();
+		if (dropTarget?.section !== section || dropTarget.index !== index) {
+			setDropTarget({ section, index });
+		}
+	};
+
+	const startDrag = (e: React.DragEvent, source: DragSource) => {
+		// Firefox only starts a drag when some data is set
+		e.dataTransfer.setData("text/plain", "");
+		e.dataTransfer.effectAllowed = source.from === "palette" ? "copy" : "move";
+		setDragSource(source);
+	};
+
+	const endDrag = () => {
+		setDragSource(null);
+		setDropTarget(null);
+	};
+
+	const renderTimeline = (section: Section, label: string, length: number) => {
+		const blocks = arrangement[section];
+		const totalBars = countBars(blocks);
+
+		return (
+			<div>
+				<div className='flex justify-between items-center mb-1'>
+					<span className='text-sm font-medium text-gray-700'>{label}</span>
+					<span
+						className={`text-xs ${
+							totalBars === length ? "text-gray-500" : "text-red-600"
+						}`}>
+						{totalBars} / {length} bars in total
+						{tempo &&
+							` (≈ ${formatDuration(
+								calculateSectionDuration(tempo, section, totalBars)
+							)})`}
+					</span>
+				</div>
+				<div
+					className='flex gap-1 min-h-[88px] p-1 rounded-md border border-dashed border-gray-300 bg-gray-50'
+					onDragOver={(e) => handleDragOver(e, section, blocks.length)}
+					onDrop={(e) => {
+						e.preventDefault();
+						dropBlock(section, blocks.length);
+					}}>
+					{blocks.length === 0 && (
+						<div className='flex-1 flex items-center justify-center text-xs text-gray-400'>
+							Drag a stem here
+						</div>
+					)}
+					{blocks.map((block, index) => {
+						const isDropTarget =
+							dropTarget?.section === section && dropTarget.index === index;
+						const isDragging =
+							dragSource?.from === section && dragSource.index === index;
+
+						return (
+							<div
+								key={`${section}-block-${index}`}
+								className={`relative rounded border p-1 text-xs cursor-move ${
+									stemStyles[block.stem]
+								} ${isDragging ? "opacity-40" : ""} ${
+									isDropTarget ? "ring-2 ring-primary" : ""
+								}`}
+								style={{ flexGrow: block.bars, flexBasis: 0, minWidth: 72 }}
+								draggable={!disabled}
+								onDragStart={(e) => startDrag(e, { from: section, index })}
+								onDragEnd={endDrag}
+								onDragOver={(e) => handleDragOver(e, section, index)}
+								onDrop={(e) => {
+									e.preventDefault();
+									e.stopPropagation();
+									dropBlock(section, index);
+								}}>
+								<div className='flex items-center justify-between gap-1'>
+									<select
+										className='bg-transparent font-medium capitalize focus:outline-none'
+										value={block.stem}
+										onChange={(e) =>
+											updateBlock(section, index, {
+												stem: e.target.value as ArrangementStem,
+											})
+										}
+										disabled={disabled}>
+										{availableStems.map((stem) => (
+											<option key={stem} value={stem}>
+												{stem}
+											</option>
+										))}
+									</select>
+									<button
+										className='material-icons text-xs opacity-60 hover:opacity-100'
+										onClick={() => removeBlock(section, index)}
+										disabled={disabled}
+										title='Remove block'>
+										close
+									</button>
+								</div>
+								<label className='flex items-center gap-1 mt-1'>
+									<input
+										type='number'
+										min={1}
+										max={64}
+										className='w-10 bg-white/70 rounded px-1'
+										value={block.bars}
+										onChange={(e) =>
+											updateBlock(section, index, {
+												bars: Math.min(
+													64,
+													Math.max(1, parseInt(e.target.value, 10) || 1)
+												),
+											})
+										}
+										disabled={disabled}
+									/>
+									bars
+								</label>
+								<label className='flex items-center gap-1 mt-1'>
+									<input
+										type='number'
+										min={-24}
+										max={12}
+										step={1}
+										className='w-10 bg-white/70 rounded px-1'
+										value={block.gain}
+										onChange={(e) =>
+											updateBlock(section, index, {
+												gain: Math.min(
+													12,
+													Math.max(-24, parseFloat(e.target.value) || 0)
+												),
+											})
+										}
+										disabled={disabled}
+									/>
+									dB
+								</label>
+							</div>
+						);
+					})}
+				</div>
+				{totalBars !== length && (
+					<p className='text-xs text-red-600 mt-1'>
+						Blocks must add up to the {length}-bar {label.toLowerCase()}.
+					</p>
+				)}
+			</div>
+		);
+	};
+
+	return (
+		<div className='space-y-3'>
+			<div className='flex flex-wrap items-center gap-2'>
+				<span className='text-xs text-gray-500'>Drag to add:</span>
+				{availableStems.map((stem) => (
+					<div
+						key={`palette-${stem}`}
+						className={`px-2 py-1 rounded border text-xs capitalize cursor-grab ${stemStyles[stem]}`}
+						draggable={!disabled}
+						onDragStart={(e) => startDrag(e, { from: "palette", stem })}
+						onDragEnd={endDrag}>
+						{stem}
+					</div>
+				))}
+			</div>
+			{renderTimeline("intro", "Intro", introLength)}
+			{renderTimeline("outro", "Outro", outroLength)}
+		</div>
+	);
+};
+
+export default ArrangementEditor;
@@ -0,0 +1,200 @@
+/** @format */
+
+import React, { useEffect, useRef, useState } from "react";
+import { BeatGrid, TrackWithVersions } from "@shared/schema";
+import { buildBeatGrid } from "@shared/beatGrid";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface BeatGridEditorProps {
+	track: TrackWithVersions;
+	currentTime: number; // playhead of the original, for "set downbeat here"
+	onPreview: (grid: BeatGrid | null) => void; // draft grid for the waveform
+	onClose: () => void;
+}
+
+const NUDGE_SECONDS = 0.01;
+// Taps further apart than this start a new tempo measurement
+const TAP_RESET_MS = 2000;
+const TAP_WINDOW = 8;
+
+/**
+ * Manual beat grid correction for the original: BPM entry with halve/double
+ * and tap tempo, offset nudging and setting bar one at the playhead. Saving
+ * stores a constant-tempo grid that later renders use instead of detecting.
+ */
+const BeatGridEditor: React.FC<BeatGridEditorProps> = ({
+	track,
+	currentTime,
+	onPreview,
+	onClose,
+}) => {
+	const [bpm, setBpm] = useState(track.beatGrid?.bpm ?? track.bpm ?? 120);
+	const [firstDownbeat, setFirstDownbeat] = useState(
+		track.beatGrid?.firstDownbeat ?? 0
+	);
+	const [isSaving, setIsSaving] = useState(false);
+	const taps = useRef<number[]>([]);
+	const { toast } = useToast();
+
+	const duration =
+		track.duration ??
+		track.beatGrid?.beats[track.beatGrid.beats.length - 1] ??
+		0;
+	const beatLength = 60 / bpm;
+
+	// Redraw the waveform's bar lines with the draft grid as it changes
+	useEffect(() => {
+		if (duration > 0 && bpm >= 40 && bpm <= 250) {
+			onPreview(buildBeatGrid(bpm, firstDownbeat, duration));
+		}
+	}, [bpm, firstDownbeat, duration, onPreview]);
+
+	// Drop the preview when the editor closes
+	useEffect(() => () => onPreview(null), [onPreview]);
+
+	// Moving bar one before the start wraps to the same position a bar later
+	const nudge = (seconds: number) => {
+		setFirstDownbeat((prev) => {
+			const next = prev + seconds;
+			return next < 0 ? next + beatLength * 4 : next;
+		});
+	};
+
+	const handleTap = () => {
+		const now = performance.now();
+		const last = taps.current[taps.current.length - 1];
+		if (last !== undefined && now - last > TAP_RESET_MS) {
+			taps.current = [];
+		}
+		taps.current = [...taps.current, now].slice(-TAP_WINDOW);
+
+		if (taps.current.length >= 4) {
+			const intervals = taps.current
+				.slice(1)
+				.map((tap, i) => tap - taps.current[i]);
+			const average =
+				intervals.reduce((total, interval) => total + interval, 0) /
+				intervals.length;
+			setBpm(Math.round((60000 / average) * 100) / 100);
+		}
+	};
+
+	const handleSave = async () => {
+		setIsSaving(true);
+		try {
+			const response = await apiRequest(
+				"PUT",
+				`/api/tracks/${track.id}/beatgrid`,
+				{ bpm, firstDownbeat }
+			);
+			const updatedTrack = await response.json();
+			queryClient.setQueryData([`/api/tracks/${track.id}`], updatedTrack);
+			queryClient.invalidateQueries({ queryKey: ["/api/tracks"] });
+
+			toast({
+				title: "Beat Grid Saved",
+				description: "New extended versions will use the corrected grid.",
+			});
+			onClose();
+		} catch (error) {
+			console.error("Save beat grid error:", error);
+			toast({
+				title: "Error",
+				description: "Failed to save the beat grid.",
+				variant: "destructive",
+			});
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const buttonClass =
+		"px-2 py-1 text-xs rounded border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50";
+
+	return (
+		<div className='mt-4 rounded-lg border border-gray-200 bg-gray-50 p-4 space-y-3'>
+			<div className='flex items-center justify-between'>
+				<h4 className='text-sm font-semibold text-gray-700'>Beat Grid</h4>
+				{track.beatGrid && (
+					<span className='text-xs text-gray-500'>
+						{track.beatGrid.manual
+							? "Corrected manually"
+							: `Detected (${Math.round(
+									track.beatGrid.confidence * 100
+							  )}% confidence)`}
+					</span>
+				)}
+			</div>
+
+			<div className='flex flex-wrap items-center gap-2'>
+				<label htmlFor='beat-grid-bpm' className='text-sm text-gray-700 w-24'>
+					BPM
+				</label>
+				<input
+					id='beat-grid-bpm'
+					type='number'
+					min={40}
+					max={250}
+					step={0.01}
+					className='w-24 border border-gray-300 rounded px-2 py-1 text-sm'
+					value={bpm}
+					onChange={(e) => setBpm(parseFloat(e.target.value) || 0)}
+				/>
+				<button
+					className={buttonClass}
+					onClick={() => setBpm((prev) => prev / 2)}
+					disabled={bpm / 2 < 40}>
+					÷2
+				</button>
+				<button
+					className={buttonClass}
+					onClick={() => setBpm((prev) => prev * 2)}
+					disabled={bpm * 2 > 250}>
+					×2
+				</button>
+				<button className={buttonClass} onClick={handleTap}>
+					Tap
+				</button>
+			</div>
+
+			<div className='flex flex-wrap items-center gap-2'>
+				<span className='text-sm text-gray-700 w-24'>Bar one</span>
+				<span className='w-24 text-sm font-mono'>
+					{firstDownbeat.toFixed(3)}s
+				</span>
+				<button className={buttonClass} onClick={() => nudge(-beatLength)}>
+					-1 beat
+				</button>
+				<button className={buttonClass} onClick={() => nudge(-NUDGE_SECONDS)}>
+					-10ms
+				</button>
+				<button className={buttonClass} onClick={() => nudge(NUDGE_SECONDS)}>
+					+10ms
+				</button>
+				<button className={buttonClass} onClick={() => nudge(beatLength)}>
+					+1 beat
+				</button>
+				<button
+					className={buttonClass}
+					onClick={() => setFirstDownbeat(currentTime)}>
+					Set at playhead
+				</button>
+			</div>
+
+			<div className='flex justify-end gap-2'>
+				<button className={buttonClass} onClick={onClose} disabled={isSaving}>
+					Cancel
+				</button>
+				<button
+					className='px-3 py-1 text-xs rounded bg-primary text-white hover:bg-primary-dark disabled:opacity-50'
+					onClick={handleSave}
+					disabled={isSaving || !duration || bpm < 40 || bpm > 250}>
+					{isSaving ? "Saving..." : "Save Grid"}
+				</button>
+			</div>
+		</div>
+	);
+};
+
+export default BeatGridEditor;
@@ -1,11 +1,12 @@
 /** @format */
 
 import React from "react";
-import { AudioTrack } from "@shared/schema";
-import { formatDuration } from "@/lib/audio";
+import { TrackWithVersions } from "@shared/schema";
+import { describeTempo, formatDuration, getTrackTitle } from "@/lib/audio";
+import TrackArtwork from "./TrackArtwork";
 
 interface CompletedMixCardProps {
-	track: AudioTrack;
+	track: TrackWithVersions;
 	onPreview: () => void;
 	onAdjust: () => void;
 }
@@ -15,13 +16,15 @@ const CompletedMixCard: React.FC<CompletedMixCardProps> = ({
 	onPreview,
 	onAdjust,
 }) => {
+	const latestVersion = track.versions[track.versions.length - 1];
+
 	// Only show if track is successfully processed
-	if (track.status !== "completed" || !track.extendedPath) {
+	if (track.status !== "completed" || !latestVersion) {
 		return null;
 	}
 
 	const handleDownload = () => {
-		window.location.href = `/api/tracks/${track.id}/download`;
+		window.location.href = `/api/tracks/${track.id}/download?versionId=${latestVersion.id}`;
 	};
 
 	return (
@@ -36,28 +39,30 @@ const CompletedMixCard: React.FC<CompletedMixCardProps> = ({
 
 			<div className='flex flex-col sm:flex-row items-center sm:items-start gap-4 mb-4 p-4 bg-gray-50 rounded-lg'>
 				<div className='flex-shrink-0'>
-					<div className='w-24 h-24 bg-gradient-to-br from-primary to-purple-600 rounded-lg flex items-center justify-center shadow-md'>
-						<span className='material-icons text-white text-3xl'>
-							equalizer
-						</span>
-					</div>
+					<TrackArtwork
+						track={track}
+						icon='equalizer'
+						className='w-24 h-24 bg-gradient-to-br from-primary to-purple-600 rounded-lg shadow-md'
+						iconClassName='text-white text-3xl'
+					/>
 				</div>
 
 				<div className='flex-1 text-center sm:text-left'>
 					<h3 className='text-lg font-bold'>
-						{track.originalFilename.replace(/\.[^/.]+$/, "")} (Extended Mix v$
-						{track.extendedPaths?.length || 1})
-						{track.originalFilename.match(/\.[^/.]+$/)?.[0] || ""}
+						{getTrackTitle(track)} (Extended Mix v{latestVersion.versionNumber})
 					</h3>
+					{track.artist && (
+						<p className='text-gray-700 font-medium'>{track.artist}</p>
+					)}
 					<p className='text-gray-500 mb-2'>
-						Extended • {formatDuration(track.extendedDuration || 0)} •{" "}
-						{track.bpm || "--"} BPM
+						Extended • {formatDuration(latestVersion.duration || 0)} •{" "}
+						{describeTempo(track) || "-- BPM"}
 					</p>
 
 					<div className='text-sm text-gray-600 mb-3'>
 						<p>
-							DJ-friendly with {track.settings?.introLength || 16}-bar intro and{" "}
-							{track.settings?.outroLength || 16}-bar outro
+							DJ-friendly with {latestVersion.settings.introLength}-bar intro
+							and {latestVersion.settings.outroLength}-bar outro
 						</p>
 						<p>Ideal for mixing, with clean transition points</p>
 					</div>
@@ -108,6 +113,9 @@ const CompletedMixCard: React.FC<CompletedMixCardProps> = ({
 							<div className='w-3/5 bg-gray-600 flex-shrink-0 flex items-center justify-center text-xs text-white rounded-sm'>
 								Main Song
 							</div>
+							<div className='w-1/5 bg-amber-500 flex-shrink-0 flex items-center justify-center text-xs text-white'>
+								Outro
+							</div>
 						</div>
 					</div>
 				</div>
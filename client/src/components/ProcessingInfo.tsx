@@ -1,7 +1,19 @@
 /** @format */
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useTrackEvents } from "@/hooks/use-track-events";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+	describeProcessingError,
+	type ProcessingErrorInfo,
+} from "@/lib/processingErrors";
+import {
+	processingStages,
+	type ProcessingStage,
+	type TrackStatusResponse,
+} from "@shared/schema";
 
 interface ProcessingInfoProps {
 	trackId: number;
@@ -11,49 +23,67 @@ interface ProcessingInfoProps {
 
 interface ProcessingState {
 	progress: number;
-	status: string;
-	steps: {
-		text: string;
-		status: "completed" | "current" | "pending";
-	}[];
+	stage: ProcessingStage;
+	queuePosition: number;
 }
 
+interface ProcessingFailure extends ProcessingErrorInfo {
+	message: string | null;
+}
+
+type StepStatus = "completed" | "current" | "pending";
+
+// Steps shown to the user, one per pipeline stage reported by the server
+const processingSteps: {
+	stage: ProcessingStage;
+	text: string;
+	regenerationText: string;
+}[] = [
+	{
+		stage: "queued",
+		text: "Waiting for a processing slot",
+		regenerationText: "Waiting for a processing slot",
+	},
+	{
+		stage: "detecting_beats",
+		text: "Detecting tempo and beats",
+		regenerationText: "Re-detecting tempo and beats",
+	},
+	{
+		stage: "separating",
+		text: "Separating audio components",
+		regenerationText: "Re-separating audio components",
+	},
+	{
+		stage: "extending",
+		text: "Creating extended sections",
+		regenerationText: "Re-creating extended sections",
+	},
+	{
+		stage: "exporting",
+		text: "Rendering extended mix",
+		regenerationText: "Rendering new mix version",
+	},
+	{
+		stage: "finalizing",
+		text: "Finalizing extended mix",
+		regenerationText: "Finalizing new mix version",
+	},
+];
+
 const ProcessingInfo: React.FC<ProcessingInfoProps> = ({
 	trackId,
 	onComplete,
 	onCancel,
 }) => {
 	const [isRegeneration, setIsRegeneration] = useState(false);
+	const [isCancelling, setIsCancelling] = useState(false);
+	const [isComplete, setIsComplete] = useState(false);
+	const [failure, setFailure] = useState<ProcessingFailure | null>(null);
 	const [processingState, setProcessingState] = useState<ProcessingState>({
 		progress: 0,
-		status: "Initializing...",
-		steps: [
-			{
-				text: isRegeneration
-					? "Re-analyzing audio structure"
-					: "Analyzing audio file structure",
-				status: "current",
-			},
-			{ text: "Detecting tempo and beats", status: "pending" },
-			{
-				text: isRegeneration
-					? "Re-separating audio components"
-					: "Separating audio components",
-				status: "pending",
-			},
-			{
-				text: isRegeneration
-					? "Re-creating extended sections"
-					: "Creating extended sections",
-				status: "pending",
-			},
-			{
-				text: isRegeneration
-					? "Finalizing new mix version"
-					: "Finalizing extended mix",
-				status: "pending",
-			},
-		],
+		stage: "queued",
+		queuePosition: 0,
 	});
 
 	// Check if this is a regeneration when component mounts
@@ -61,133 +91,120 @@ const ProcessingInfo: React.FC<ProcessingInfoProps> = ({
 		const checkTrackStatus = async () => {
 			const response = await fetch(`/api/tracks/${trackId}`);
 			const track = await response.json();
-			setIsRegeneration(track.extendedPaths?.length > 0);
+			setIsRegeneration(track.versions?.length > 0);
 		};
 		checkTrackStatus();
 	}, [trackId]);
 
 	const { toast } = useToast();
 
-	// Simulated progress based on polling the actual status
-	useEffect(() => {
-		let intervalId: number;
-		let checkCount = 0;
-		const maxChecks = 120; // Maximum number of status checks to prevent infinite polling
-
-		const checkStatus = async () => {
-			try {
-				const response = await fetch(`/api/tracks/${trackId}/status`);
-
-				if (!response.ok) {
-					throw new Error("Failed to fetch processing status");
-				}
-
-				const data = await response.json();
-				checkCount++;
-
-				// Simple state machine to update UI based on current processing stage
-				if (data.status === "processing" || data.status === "regenerate") {
-					const _isRegeneration = data.status === "regenerate";
-					// Simulate progress based on check count as a percentage of expected total
-					const progressIncrement = 100 / (maxChecks * 0.8); // Target 80% of progress through polling
-					const newProgress = Math.min(80, checkCount * progressIncrement);
-
-					// Update step status based on progress
-					let newSteps = [...processingState.steps];
-					let stepStatus = "Analyzing audio...";
-
-					if (newProgress < 20) {
-						newSteps[0].status = "current";
-						stepStatus = "Analyzing audio file structure...";
-					} else if (newProgress < 40) {
-						newSteps[0].status = "completed";
-						newSteps[1].status = "current";
-						stepStatus = "Detecting tempo and beats...";
-					} else if (newProgress < 60) {
-						newSteps[0].status = "completed";
-						newSteps[1].status = "completed";
-						newSteps[2].status = "current";
-						stepStatus = "Separating audio components...";
-					} else if (newProgress < 80) {
-						newSteps[0].status = "completed";
-						newSteps[1].status = "completed";
-						newSteps[2].status = "completed";
-						newSteps[3].status = "current";
-						stepStatus = "Creating extended sections...";
-					}
+	// The status route reports stage and progress; pushed track events keep
+	// the query fresh, so there is no polling or client-side timeout
+	useTrackEvents();
+	const { data: statusData, isFetching } = useQuery<TrackStatusResponse>({
+		queryKey: [`/api/tracks/${trackId}/status`],
+		refetchOnMount: "always",
+	});
+	const handledOutcome = useRef(false);
 
-					setProcessingState({
-						progress: newProgress,
-						status: stepStatus,
-						steps: newSteps,
-					});
-				} else if (data.status === "completed") {
-					setProcessingState((prev) => ({
-						...prev,
-						progress: 100,
-						status: "Complete",
-						steps: prev.steps.map((step) => ({ ...step, status: "completed" })),
-					}));
-					clearInterval(intervalId);
-					onComplete();
+	useEffect(() => {
+		// Skip cached data until the mount refetch lands
+		if (!statusData || isFetching || handledOutcome.current) return;
 
-					toast({
-						title: "Processing Complete",
-						description: "Your extended mix is ready!",
-						variant: "default",
-					});
-				} else if (data.status === "error") {
-					// Processing failed
-					clearInterval(intervalId);
+		if (
+			statusData.status === "processing" ||
+			statusData.status === "regenerate"
+		) {
+			if (statusData.job) {
+				setProcessingState({
+					progress: statusData.job.progress,
+					stage: statusData.job.stage,
+					queuePosition: statusData.job.queuePosition,
+				});
+			}
+		} else if (statusData.status === "completed") {
+			handledOutcome.current = true;
+			setIsComplete(true);
+			setProcessingState((prev) => ({ ...prev, progress: 100 }));
+			onComplete();
 
-					toast({
-						title: "Processing Failed",
-						description: "There was an error processing your track.",
-						variant: "destructive",
-					});
+			toast({
+				title: "Processing Complete",
+				description: "Your extended mix is ready!",
+				variant: "default",
+			});
+		} else if (statusData.status === "error") {
+			handledOutcome.current = true;
+			const info = describeProcessingError(statusData.job?.errorCode);
+			setFailure({
+				...info,
+				message: statusData.job?.errorMessage || null,
+			});
 
-					onCancel();
-				}
+			// Stay on this panel so the details and suggested fix remain visible
+			toast({
+				title: "Processing Failed",
+				description: info.title,
+				variant: "destructive",
+			});
+		}
+	}, [statusData, isFetching, onComplete, onCancel, toast]);
 
-				// Stop polling after max checks to prevent infinite polling
-				if (checkCount >= maxChecks) {
-					clearInterval(intervalId);
-					toast({
-						title: "Processing Timeout",
-						description:
-							"Processing is taking longer than expected. Please try again.",
-						variant: "destructive",
-					});
-					onCancel();
-				}
-			} catch (error) {
-				console.error("Error checking processing status:", error);
-			}
-		};
+	const handleCancelProcessing = async () => {
+		setIsCancelling(true);
 
-		// Check status immediately and then every 3 seconds
-		checkStatus();
-		intervalId = window.setInterval(checkStatus, 3000);
+		try {
+			const response = await apiRequest(
+				"POST",
+				`/api/tracks/${trackId}/cancel`
+			);
+			const data = await response.json();
 
-		return () => {
-			if (intervalId) {
-				clearInterval(intervalId);
-			}
-		};
-	}, [trackId, onComplete, onCancel, toast]);
+			queryClient.invalidateQueries({
+				queryKey: [`/api/tracks/${trackId}`],
+			});
+			onCancel();
 
-	const handleCancelProcessing = async () => {
-		// In a real app, we would make an API call to cancel processing
-		// Since our backend doesn't support cancellation yet, we'll just update the UI
-		onCancel();
+			toast({
+				title: "Processing Cancelled",
+				description:
+					data.status === "completed"
+						? "The new version was discarded. Your existing versions are unchanged."
+						: "The processing has been cancelled.",
+				variant: "default",
+			});
+		} catch (error) {
+			console.error("Cancel processing error:", error);
+			toast({
+				title: "Cancel Failed",
+				description:
+					"The processing could not be cancelled. It may have already finished.",
+				variant: "destructive",
+			});
+		} finally {
+			setIsCancelling(false);
+		}
+	};
 
-		toast({
-			title: "Processing Cancelled",
-			description: "The processing has been cancelled.",
-			variant: "default",
-		});
+	const currentStageIndex = processingStages.indexOf(processingState.stage);
+	const stepStatus = (stage: ProcessingStage): StepStatus => {
+		const index = processingStages.indexOf(stage);
+		if (isComplete || index < currentStageIndex) return "completed";
+		return index === currentStageIndex ? "current" : "pending";
 	};
 
+	const currentStep = processingSteps.find(
+		(step) => step.stage === processingState.stage
+	);
+	const statusText = isComplete
+		? "Complete"
+		: processingState.stage === "queued" && processingState.queuePosition > 0
+		? `Waiting in queue (position ${processingState.queuePosition})...`
+		: `${
+				(isRegeneration ? currentStep?.regenerationText : currentStep?.text) ||
+				"Initializing"
+		  }...`;
+
 	// Render step icon based on its status
 	const renderStepIcon = (status: string) => {
 		switch (status) {
@@ -212,6 +229,32 @@ const ProcessingInfo: React.FC<ProcessingInfoProps> = ({
 		}
 	};
 
+	if (failure) {
+		return (
+			<div className='bg-white rounded-xl shadow-md p-6'>
+				<h2 className='text-xl font-semibold mb-4'>Processing Failed</h2>
+
+				<div className='rounded-md border border-red-200 bg-red-50 p-4 text-sm'>
+					<p className='font-medium text-red-800'>{failure.title}</p>
+					{failure.message && (
+						<p className='text-red-700 mt-1'>{failure.message}</p>
+					)}
+				</div>
+
+				<div className='border border-gray-200 rounded-md p-3 bg-gray-50 mt-4 text-sm'>
+					<h4 className='font-medium mb-1'>Suggested fix:</h4>
+					<p className='text-gray-700'>{failure.suggestion}</p>
+				</div>
+
+				<button
+					className='mt-6 w-full border border-gray-300 text-gray-700 py-2 px-4 rounded-md font-medium shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500'
+					onClick={onCancel}>
+					Back to Settings
+				</button>
+			</div>
+		);
+	}
+
 	return (
 		<div className='bg-white rounded-xl shadow-md p-6'>
 			<h2 className='text-xl font-semibold mb-4'>Processing Track</h2>
@@ -219,7 +262,7 @@ const ProcessingInfo: React.FC<ProcessingInfoProps> = ({
 			<div className='space-y-4'>
 				<div>
 					<div className='flex justify-between text-sm mb-1'>
-						<span className='font-medium'>{processingState.status}</span>
+						<span className='font-medium'>{statusText}</span>
 						<span className='text-primary'>
 							{Math.round(processingState.progress)}%
 						</span>
@@ -234,14 +277,14 @@ const ProcessingInfo: React.FC<ProcessingInfoProps> = ({
 				<div className='border border-gray-200 rounded-md p-3 bg-gray-50'>
 					<h4 className='font-medium text-sm mb-2'>Processing Steps:</h4>
 					<ul className='space-y-2 text-sm'>
-						{processingState.steps.map((step, index) => (
-							<li
-								key={`step-${step.text}-${index}`}
-								className='flex items-center'>
-								{renderStepIcon(step.status)}
+						{processingSteps.map((step) => (
+							<li key={`step-${step.stage}`} className='flex items-center'>
+								{renderStepIcon(stepStatus(step.stage))}
 								<span
-									className={step.status === "pending" ? "text-gray-400" : ""}>
-									{step.text}
+									className={
+										stepStatus(step.stage) === "pending" ? "text-gray-400" : ""
+									}>
+									{isRegeneration ? step.regenerationText : step.text}
 								</span>
 							</li>
 						))}
@@ -256,9 +299,10 @@ const ProcessingInfo: React.FC<ProcessingInfoProps> = ({
 			</div>
 
 			<button
-				className='mt-6 w-full border border-gray-300 text-gray-700 py-2 px-4 rounded-md font-medium shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500'
-				onClick={handleCancelProcessing}>
-				Cancel Processing
+				className='mt-6 w-full border border-gray-300 text-gray-700 py-2 px-4 rounded-md font-medium shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50'
+				onClick={handleCancelProcessing}
+				disabled={isCancelling}>
+				{isCancelling ? "Cancelling..." : "Cancel Processing"}
 			</button>
 		</div>
 	);
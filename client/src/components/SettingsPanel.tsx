@@ -1,8 +1,28 @@
 /** @format */
 
 import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { ProcessingSettings } from "@shared/schema";
+import {
+	Arrangement,
+	OutputFormat,
+	ProcessingSettings,
+	TrackWithVersions,
+	VocalMode,
+	bitDepths,
+	mp3Bitrates,
+	outputFormats,
+	sampleRates,
+} from "@shared/schema";
+import {
+	calculateSectionDuration,
+	countBars,
+	createDefaultArrangement,
+	formatDuration,
+	getTrackTempo,
+	outputFormatLabels,
+} from "@/lib/audio";
+import ArrangementEditor from "./ArrangementEditor";
 
 interface SettingsPanelProps {
 	trackId: number | null;
@@ -19,17 +39,42 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
 		introLength: 16,
 		outroLength: 16,
 		preserveVocals: true,
+		vocalMode: "full",
 		beatDetection: "auto",
 	});
+	// null renders the generated intro and outro
+	const [arrangement, setArrangement] = useState<Required<Arrangement> | null>(
+		null
+	);
 	const [isSubmitting, setIsSubmitting] = useState(false);
 	const { toast } = useToast();
 
+	const { data: track } = useQuery<TrackWithVersions>({
+		queryKey: trackId ? [`/api/tracks/${trackId}`] : ["no-track"],
+		enabled: Boolean(trackId),
+	});
+	const tempo = track ? getTrackTempo(track) : null;
+
+	const arrangementMismatch =
+		arrangement !== null &&
+		(countBars(arrangement.intro) !== settings.introLength ||
+			countBars(arrangement.outro) !== settings.outroLength);
+
+	const handleCustomArrangementChange = (
+		e: React.ChangeEvent<HTMLInputElement>
+	) => {
+		setArrangement(
+			e.target.checked
+				? createDefaultArrangement(settings.introLength, settings.outroLength)
+				: null
+		);
+	};
+
 	const incrementIntroLength = () => {
 		if (settings.introLength < 64) {
 			setSettings((prev) => ({
 				...prev,
 				introLength: prev.introLength + 8,
-				outroLength: prev.outroLength + 8,
 			}));
 		}
 	};
@@ -39,12 +84,11 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
 			setSettings((prev) => ({
 				...prev,
 				introLength: prev.introLength - 8,
-				outroLength: prev.outroLength - 8,
 			}));
 		}
 	};
 
-	const _incrementOutroLength = () => {
+	const incrementOutroLength = () => {
 		if (settings.outroLength < 64) {
 			setSettings((prev) => ({
 				...prev,
@@ -53,7 +97,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
 		}
 	};
 
-	const _decrementOutroLength = () => {
+	const decrementOutroLength = () => {
 		if (settings.outroLength > 8) {
 			setSettings((prev) => ({
 				...prev,
@@ -62,14 +106,43 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
 		}
 	};
 
-	const _togglePreserveVocals = () => {
+	const handleVocalModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+		const vocalMode = e.target.value as VocalMode;
 		setSettings((prev) => ({
 			...prev,
-			preserveVocals: !prev.preserveVocals,
+			vocalMode,
+			preserveVocals: vocalMode !== "instrumental",
+		}));
+
+		// Vocals blocks are only allowed with vocals throughout
+		if (vocalMode !== "full") {
+			setArrangement((prev) =>
+				prev
+					? {
+							intro: prev.intro.map((block) =>
+								block.stem === "vocals" ? { ...block, stem: "other" } : block
+							),
+							outro: prev.outro.map((block) =>
+								block.stem === "vocals" ? { ...block, stem: "other" } : block
+							),
+					  }
+					: prev
+			);
+		}
+	};
+
+	// Leaving the seed empty lets the server pick a random one
+	const handleSeedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+		const seed = parseInt(e.target.value, 10);
+		setSettings((prev) => ({
+			...prev,
+			seed: Number.isNaN(seed)
+				? undefined
+				: Math.min(Math.max(0, seed), 2 ** 31 - 1),
 		}));
 	};
 
-	const _handleBeatDetectionChange = (
+	const handleBeatDetectionChange = (
 		e: React.ChangeEvent<HTMLSelectElement>
 	) => {
 		setSettings((prev) => ({
@@ -78,6 +151,38 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
 		}));
 	};
 
+	// Quality options that don't apply to the new format are dropped; an
+	// empty value keeps the upload's format
+	const handleOutputFormatChange = (
+		e: React.ChangeEvent<HTMLSelectElement>
+	) => {
+		const outputFormat = (e.target.value || undefined) as
+			| OutputFormat
+			| undefined;
+		setSettings((prev) => ({
+			...prev,
+			outputFormat,
+			mp3Bitrate: outputFormat === "mp3" ? prev.mp3Bitrate : undefined,
+			bitDepth:
+				outputFormat && outputFormat !== "mp3" ? prev.bitDepth : undefined,
+			sampleRate:
+				outputFormat === "mp3" && (prev.sampleRate ?? 0) > 48000
+					? undefined
+					: prev.sampleRate,
+		}));
+	};
+
+	// Empty quality values fall back to the renderer's defaults
+	const handleQualityChange =
+		(field: "mp3Bitrate" | "bitDepth" | "sampleRate") =>
+		(e: React.ChangeEvent<HTMLSelectElement>) => {
+			const value = parseInt(e.target.value, 10);
+			setSettings((prev) => ({
+				...prev,
+				[field]: Number.isNaN(value) ? undefined : value,
+			}));
+		};
+
 	const handleGenerateClick = async () => {
 		if (!trackId) {
 			toast({
@@ -96,7 +201,10 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
 				headers: {
 					"Content-Type": "application/json",
 				},
-				body: JSON.stringify(settings),
+				body: JSON.stringify({
+					...settings,
+					arrangement: arrangement ?? undefined,
+				}),
 			});
 
 			if (!response.ok) {
@@ -149,14 +257,208 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
 							disabled={settings.introLength >= 64 || disabled}>
 							<span className='material-icons text-sm'>add</span>
 						</button>
+						{tempo && (
+							<span className='ml-3 text-xs text-gray-500'>
+								≈{" "}
+								{formatDuration(
+									calculateSectionDuration(tempo, "intro", settings.introLength)
+								)}
+							</span>
+						)}
+					</div>
+				</div>
+
+				<div>
+					<label className='block text-sm font-medium text-gray-700 mb-1'>
+						Outro Length (bars)
+					</label>
+					<div className='flex items-center'>
+						<button
+							className='bg-gray-200 px-2 py-1 rounded-l-md disabled:opacity-50'
+							onClick={decrementOutroLength}
+							disabled={settings.outroLength <= 8 || disabled}>
+							<span className='material-icons text-sm'>remove</span>
+						</button>
+						<div className='px-4 py-1 bg-gray-100 text-center'>
+							{settings.outroLength}
+						</div>
+						<button
+							className='bg-gray-200 px-2 py-1 rounded-r-md disabled:opacity-50'
+							onClick={incrementOutroLength}
+							disabled={settings.outroLength >= 64 || disabled}>
+							<span className='material-icons text-sm'>add</span>
+						</button>
+						{tempo && (
+							<span className='ml-3 text-xs text-gray-500'>
+								≈{" "}
+								{formatDuration(
+									calculateSectionDuration(tempo, "outro", settings.outroLength)
+								)}
+							</span>
+						)}
 					</div>
 				</div>
+
+				<div>
+					<label
+						htmlFor='vocal-mode'
+						className='block text-sm font-medium text-gray-700 mb-1'>
+						Vocals
+					</label>
+					<select
+						id='vocal-mode'
+						className='w-full border border-gray-300 rounded-md px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50'
+						value={settings.vocalMode}
+						onChange={handleVocalModeChange}
+						disabled={disabled}>
+						<option value='full'>Keep vocals everywhere</option>
+						<option value='mainOnly'>
+							Main body only (instrumental intro/outro)
+						</option>
+						<option value='instrumental'>Remove vocals (instrumental)</option>
+					</select>
+				</div>
+
+				<div>
+					<label
+						htmlFor='beat-detection'
+						className='block text-sm font-medium text-gray-700 mb-1'>
+						Beat Detection
+					</label>
+					<select
+						id='beat-detection'
+						className='w-full border border-gray-300 rounded-md px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50'
+						value={settings.beatDetection}
+						onChange={handleBeatDetectionChange}
+						disabled={disabled}>
+						<option value='auto'>Auto (librosa, then madmom)</option>
+						<option value='librosa'>Librosa</option>
+						<option value='madmom'>Madmom</option>
+					</select>
+				</div>
+
+				<div>
+					<label
+						htmlFor='output-format'
+						className='block text-sm font-medium text-gray-700 mb-1'>
+						Output Format
+					</label>
+					<select
+						id='output-format'
+						className='w-full border border-gray-300 rounded-md px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50'
+						value={settings.outputFormat ?? ""}
+						onChange={handleOutputFormatChange}
+						disabled={disabled}>
+						<option value=''>Same as upload</option>
+						{outputFormats.map((format) => (
+							<option key={format} value={format}>
+								{outputFormatLabels[format]}
+							</option>
+						))}
+					</select>
+					{settings.outputFormat && (
+						<div className='flex gap-2 mt-2'>
+							{settings.outputFormat === "mp3" ? (
+								<select
+									aria-label='MP3 bitrate'
+									className='w-full border border-gray-300 rounded-md px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50'
+									value={settings.mp3Bitrate ?? 320}
+									onChange={handleQualityChange("mp3Bitrate")}
+									disabled={disabled}>
+									{mp3Bitrates.map((bitrate) => (
+										<option key={bitrate} value={bitrate}>
+											{bitrate} kbps
+										</option>
+									))}
+								</select>
+							) : (
+								<select
+									aria-label='Bit depth'
+									className='w-full border border-gray-300 rounded-md px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50'
+									value={settings.bitDepth ?? ""}
+									onChange={handleQualityChange("bitDepth")}
+									disabled={disabled}>
+									<option value=''>Original bit depth</option>
+									{bitDepths.map((depth) => (
+										<option key={depth} value={depth}>
+											{depth}-bit
+										</option>
+									))}
+								</select>
+							)}
+							<select
+								aria-label='Sample rate'
+								className='w-full border border-gray-300 rounded-md px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50'
+								value={settings.sampleRate ?? ""}
+								onChange={handleQualityChange("sampleRate")}
+								disabled={disabled}>
+								<option value=''>Original sample rate</option>
+								{sampleRates
+									.filter(
+										(rate) => settings.outputFormat !== "mp3" || rate <= 48000
+									)
+									.map((rate) => (
+										<option key={rate} value={rate}>
+											{rate / 1000} kHz
+										</option>
+									))}
+							</select>
+						</div>
+					)}
+				</div>
+
+				<div>
+					<label
+						htmlFor='intro-seed'
+						className='block text-sm font-medium text-gray-700 mb-1'>
+						Intro Seed
+					</label>
+					<input
+						id='intro-seed'
+						type='number'
+						min={0}
+						step={1}
+						placeholder='Random'
+						className='w-full border border-gray-300 rounded-md px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50'
+						value={settings.seed ?? ""}
+						onChange={handleSeedChange}
+						disabled={disabled}
+					/>
+					<p className='text-xs text-gray-500 mt-1'>
+						Reuse a version's seed to get the same intro order again.
+					</p>
+				</div>
+
+				<div>
+					<label className='flex items-center gap-2 text-sm font-medium text-gray-700'>
+						<input
+							type='checkbox'
+							checked={arrangement !== null}
+							onChange={handleCustomArrangementChange}
+							disabled={disabled}
+						/>
+						Custom arrangement
+					</label>
+					{arrangement && (
+						<div className='mt-2'>
+							<ArrangementEditor
+								arrangement={arrangement}
+								introLength={settings.introLength}
+								outroLength={settings.outroLength}
+								tempo={tempo}
+								vocalsAllowed={settings.vocalMode === "full"}
+								disabled={disabled}
+								onChange={setArrangement}
+							/>
+						</div>
+					)}
+				</div>
 			</div>
 
 			<button
 				className='mt-6 w-full bg-gradient-to-r from-primary to-purple-600 text-white py-2 px-4 rounded-md font-medium shadow hover:shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:opacity-50'
 				onClick={handleGenerateClick}
-				disabled={!trackId || isSubmitting || disabled}
+				disabled={!trackId || isSubmitting || disabled || arrangementMismatch}
 				data-generate-button='true'>
 				{isSubmitting ? "Starting Process..." : "Generate Extended Version"}
 			</button>
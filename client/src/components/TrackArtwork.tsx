@@ -0,0 +1,41 @@
+/** @format */
+
+import React, { useState } from "react";
+import { AudioTrack } from "@shared/schema";
+
+interface TrackArtworkProps {
+	track: Pick<AudioTrack, "id" | "hasArtwork">;
+	icon: string; // material icon shown when the track has no cover art
+	className: string; // size, gradient and icon colour of the placeholder
+	iconClassName: string;
+}
+
+// A track's embedded cover art, or an icon on a gradient when it has none
+const TrackArtwork: React.FC<TrackArtworkProps> = ({
+	track,
+	icon,
+	className,
+	iconClassName,
+}) => {
+	// Remembered per track, since the component stays mounted across tracks
+	const [failedId, setFailedId] = useState<number | null>(null);
+
+	if (track.hasArtwork && failedId !== track.id) {
+		return (
+			<img
+				src={`/api/tracks/${track.id}/artwork`}
+				alt=''
+				className={`${className} object-cover`}
+				onError={() => setFailedId(track.id)}
+			/>
+		);
+	}
+
+	return (
+		<div className={`${className} flex items-center justify-center`}>
+			<span className={`material-icons ${iconClassName}`}>{icon}</span>
+		</div>
+	);
+};
+
+export default TrackArtwork;
@@ -0,0 +1,155 @@
+/** @format */
+
+import React, { useMemo, useState } from "react";
+import { TrackWithVersions } from "@shared/schema";
+import {
+	compareKeys,
+	formatBpm,
+	formatKey,
+	getTrackKey,
+	getTrackTitle,
+} from "@/lib/audio";
+import { useAuth } from "@/hooks/use-auth";
+import {
+	getExportFolder,
+	libraryExportLabels,
+	libraryExportUrl,
+	setExportFolder,
+} from "@/lib/libraryExport";
+import TrackArtwork from "./TrackArtwork";
+
+type SortBy = "recent" | "name" | "bpm" | "key";
+
+const sortLabels: Record<SortBy, string> = {
+	recent: "Recent",
+	name: "Name",
+	bpm: "BPM",
+	key: "Key",
+};
+
+interface TrackLibraryProps {
+	tracks: TrackWithVersions[];
+	currentTrackId: number | null;
+	onSelect: (track: TrackWithVersions) => void;
+}
+
+/**
+ * The user's uploaded tracks, sortable by upload order, name, BPM or key.
+ * Key sorting walks the Camelot wheel so compatible keys end up together.
+ * Also exports every extended version to DJ software.
+ */
+const TrackLibrary: React.FC<TrackLibraryProps> = ({
+	tracks,
+	currentTrackId,
+	onSelect,
+}) => {
+	const [sortBy, setSortBy] = useState<SortBy>("recent");
+	const [exportFolder, setExportFolderState] = useState(getExportFolder);
+	const { user } = useAuth();
+
+	const sortedTracks = useMemo(() => {
+		const compare: Record<
+			SortBy,
+			(a: TrackWithVersions, b: TrackWithVersions) => number
+		> = {
+			recent: (a, b) => b.id - a.id,
+			name: (a, b) => getTrackTitle(a).localeCompare(getTrackTitle(b)),
+			// Tracks without a BPM sort last
+			bpm: (a, b) => (a.bpm ?? Infinity) - (b.bpm ?? Infinity),
+			key: (a, b) => compareKeys(getTrackKey(a), getTrackKey(b)),
+		};
+		return [...tracks].sort(compare[sortBy]);
+	}, [tracks, sortBy]);
+
+	if (tracks.length === 0) return null;
+
+	return (
+		<div className='bg-white rounded-xl shadow-md p-6'>
+			<div className='flex items-center justify-between mb-4'>
+				<h2 className='text-xl font-semibold'>Library</h2>
+				<select
+					aria-label='Sort tracks by'
+					className='border border-gray-300 rounded px-2 py-1 text-sm'
+					value={sortBy}
+					onChange={(e) => setSortBy(e.target.value as SortBy)}>
+					{(Object.keys(sortLabels) as SortBy[]).map((option) => (
+						<option key={option} value={option}>
+							{sortLabels[option]}
+						</option>
+					))}
+				</select>
+			</div>
+
+			<ul className='divide-y divide-gray-100'>
+				{sortedTracks.map((track) => (
+					<li key={track.id}>
+						<button
+							className={`w-full flex items-center gap-2 py-2 px-2 text-left text-sm rounded hover:bg-gray-50 ${
+								track.id === currentTrackId ? "bg-primary/10" : ""
+							}`}
+							onClick={() => onSelect(track)}>
+							<TrackArtwork
+								track={track}
+								icon='music_note'
+								className='w-8 h-8 bg-gray-100 rounded flex-shrink-0'
+								iconClassName='text-gray-400 text-base'
+							/>
+							<span className='flex-1 min-w-0'>
+								<span className='block truncate font-medium'>
+									{getTrackTitle(track)}
+								</span>
+								{track.artist && (
+									<span className='block truncate text-xs text-gray-500'>
+										{track.artist}
+									</span>
+								)}
+							</span>
+							<span className='w-14 text-right text-gray-500'>
+								{track.bpm ? formatBpm(track.bpm) : "--"}
+							</span>
+							<span className='w-16 text-right text-gray-500'>
+								{formatKey(getTrackKey(track), user?.keyNotation) || "--"}
+							</span>
+						</button>
+					</li>
+				))}
+			</ul>
+
+			<div className='mt-4 pt-4 border-t border-gray-100 space-y-2'>
+				<label
+					htmlFor='export-folder'
+					className='block text-sm font-medium text-gray-700'>
+					Downloads folder
+				</label>
+				<input
+					id='export-folder'
+					type='text'
+					placeholder='e.g. C:\Music\Extended'
+					className='w-full border border-gray-300 rounded px-2 py-1 text-sm'
+					value={exportFolder}
+					onChange={(e) => {
+						setExportFolderState(e.target.value);
+						setExportFolder(e.target.value);
+					}}
+				/>
+				<p className='text-xs text-gray-500'>
+					Where you save downloaded versions, so your DJ software can find them.
+				</p>
+				<div className='flex flex-wrap gap-2'>
+					{Object.entries(libraryExportLabels).map(([file, label]) => (
+						<a
+							key={file}
+							className='inline-flex items-center px-3 py-1.5 text-sm rounded-md border border-gray-300 hover:bg-gray-50'
+							href={libraryExportUrl(file)}
+							download>
+							<span className='material-icons text-sm mr-1'>file_download</span>
+							Export to {label}
+						</a>
+					))}
+				</div>
+			</div>
+		</div>
+	);
+};
+
+export default TrackLibrary;
@@ -2,25 +2,35 @@
 
 import React, { useState, useEffect } from "react";
 import TrackView from "@/components/TrackView";
+import WaveformCanvas from "@/components/WaveformCanvas";
 import { useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { TrackWithVersions } from "@shared/schema";
 
 interface TrackPreviewProps {
 	trackId: number | null;
 	isProcessed: boolean;
+	onTrackDeleted: () => void;
 }
 
 const TrackPreview: React.FC<TrackPreviewProps> = ({
 	trackId,
 	isProcessed,
+	onTrackDeleted,
 }) => {
 	const [activeTab, setActiveTab] = useState<
 		"original" | "extended" | "comparison"
 	>("original");
+	const [isDeleting, setIsDeleting] = useState(false);
+	const { toast } = useToast();
 
-	const { data: track, isLoading } = useQuery({
+	const { data: track, isLoading } = useQuery<TrackWithVersions>({
 		queryKey: trackId ? [`/api/tracks/${trackId}`] : ["no-track"],
 		enabled: Boolean(trackId),
 	});
+	const latestVersionIndex = (track?.versions.length || 1) - 1;
+	const latestVersion = track?.versions[latestVersionIndex];
 
 	// Reset to original tab when track changes or initially loads
 	useEffect(() => {
@@ -34,6 +44,40 @@ const TrackPreview: React.FC<TrackPreviewProps> = ({
 		}
 	}, [isProcessed]);
 
+	const handleDeleteTrack = async () => {
+		if (
+			!trackId ||
+			!window.confirm(
+				"Delete this track and all of its extended versions? This cannot be undone."
+			)
+		) {
+			return;
+		}
+
+		setIsDeleting(true);
+
+		try {
+			await apiRequest("DELETE", `/api/tracks/${trackId}`);
+			queryClient.removeQueries({ queryKey: [`/api/tracks/${trackId}`] });
+			queryClient.invalidateQueries({ queryKey: ["/api/tracks"] });
+			onTrackDeleted();
+
+			toast({
+				title: "Track Deleted",
+				description: "The track and its versions have been removed.",
+			});
+		} catch (error) {
+			console.error("Delete track error:", error);
+			toast({
+				title: "Error",
+				description: "Failed to delete track.",
+				variant: "destructive",
+			});
+		} finally {
+			setIsDeleting(false);
+		}
+	};
+
 	const handleTabClick = (tab: "original" | "extended" | "comparison") => {
 		setActiveTab(tab);
 	};
@@ -114,7 +158,7 @@ const TrackPreview: React.FC<TrackPreviewProps> = ({
 					<TrackView
 						track={track}
 						type='extended'
-						version={(track.extendedPaths?.length || 1) - 1}
+						version={latestVersionIndex}
 					/>
 				) : (
 					renderEmptyState("extended")
@@ -123,7 +167,7 @@ const TrackPreview: React.FC<TrackPreviewProps> = ({
 
 			<div
 				className={`tab-content ${activeTab === "comparison" ? "" : "hidden"}`}>
-				{(isProcessed || track?.extendedPaths?.length > 0) && track ? (
+				{(isProcessed || (track?.versions.length ?? 0) > 0) && track ? (
 					<div className='space-y-6'>
 						<div>
 							<h4 className='font-medium mb-2'>Track Structure Comparison</h4>
@@ -152,17 +196,9 @@ const TrackPreview: React.FC<TrackPreviewProps> = ({
 								<div>
 									<p className='text-sm font-medium mb-1'>
 										Extended (
-										{track.extendedDurations?.[
-											(track.extendedPaths?.length || 1) - 1
-										]
-											? `${Math.floor(
-													track.extendedDurations[
-														(track.extendedPaths?.length || 1) - 1
-													] / 60
-											  )}:${(
-													track.extendedDurations[
-														(track.extendedPaths?.length || 1) - 1
-													] % 60
+										{latestVersion?.duration
+											? `${Math.floor(latestVersion.duration / 60)}:${(
+													latestVersion.duration % 60
 											  )
 													.toString()
 													.padStart(2, "0")}`
@@ -171,11 +207,18 @@ const TrackPreview: React.FC<TrackPreviewProps> = ({
 									</p>
 									<div className='h-12 w-full bg-gray-100 rounded overflow-hidden flex'>
 										<div className='w-1/5 bg-primary flex-shrink-0 flex items-center justify-center text-xs text-white'>
-											<span>{track.settings?.introLength}-bar Intro</span>
+											<span>
+												{latestVersion?.settings.introLength}-bar Intro
+											</span>
 										</div>
 										<div className='w-3/5 bg-gray-600 flex-shrink-0 flex items-center justify-center text-xs text-white rounded-sm'>
 											<span>Main Song</span>
 										</div>
+										<div className='w-1/5 bg-amber-500 flex-shrink-0 flex items-center justify-center text-xs text-white'>
+											<span>
+												{latestVersion?.settings.outroLength}-bar Outro
+											</span>
+										</div>
 									</div>
 								</div>
 							</div>
@@ -186,60 +229,32 @@ const TrackPreview: React.FC<TrackPreviewProps> = ({
 							<div className='grid grid-cols-1 gap-4'>
 								<div>
 									<p className='text-sm font-medium mb-1'>Original</p>
-									<div className='waveform-container h-20 bg-gray-900 rounded-lg'>
-										<div className='waveform'>
-											<div className='waveform-bars'>
-												{Array(120)
-													.fill(0)
-													.map((_, i) => (
-														<div
-															key={`original-waveform-${i}`}
-															className='waveform-bar bg-gradient-to-t from-primary to-purple-600'
-															style={{
-																height: `${Math.floor(
-																	Math.random() * 70 + 10
-																)}px`,
-																width: "3px",
-																margin: "0 1px",
-															}}></div>
-													))}
-											</div>
-										</div>
-									</div>
+									<WaveformCanvas
+										trackId={track.id}
+										progress={0}
+										height={48}
+										waveColor='#7c3aed'
+									/>
 								</div>
 								<div>
 									<p className='text-sm font-medium mb-1'>Extended</p>
-									<div className='waveform-container h-20 bg-gray-900 rounded-lg'>
-										<div className='waveform'>
-											<div className='waveform-bars'>
-												{" "}
-												{Array(150)
-													.fill(0)
-													.map((_, i) => (
-														<div
-															key={`extended-waveform-${i}`}
-															className='waveform-bar bg-gradient-to-t from-primary to-purple-600'
-															style={{
-																height: `${Math.floor(
-																	Math.random() * 70 + 10
-																)}px`,
-																width: "3px",
-																margin: "0 1px",
-															}}></div>
-													))}
-											</div>
-										</div>
-									</div>
+									{latestVersion && (
+										<WaveformCanvas
+											trackId={track.id}
+											versionId={latestVersion.id}
+											progress={0}
+											height={48}
+											waveColor='#7c3aed'
+										/>
+									)}
 								</div>
 							</div>
 						</div>
 
 						<div className='mt-4 flex justify-center'>
-							{track && track.status === "completed" && (
+							{track && track.status === "completed" && latestVersion && (
 								<a
-									href={`/api/tracks/${track.id}/download?version=${
-										(track.extendedPaths?.length || 1) - 1
-									}`}
+									href={`/api/tracks/${track.id}/download?versionId=${latestVersion.id}`}
 									className='inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-primary hover:bg-primary-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary'
 									download>
 									<span className='material-icons text-sm mr-1'>download</span>
@@ -273,7 +288,18 @@ const TrackPreview: React.FC<TrackPreviewProps> = ({
 
 	return (
 		<div className='bg-white rounded-xl shadow-md p-6'>
-			<h2 className='text-xl font-semibold mb-4'>Track Preview</h2>
+			<div className='flex justify-between items-center mb-4'>
+				<h2 className='text-xl font-semibold'>Track Preview</h2>
+				{trackId && !isLoading && (
+					<button
+						className='inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-red-600 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50'
+						onClick={handleDeleteTrack}
+						disabled={isDeleting}>
+						<span className='material-icons text-sm mr-1'>delete</span>
+						Delete Track
+					</button>
+				)}
+			</div>
 
 			{isLoading
 				? renderLoadingState()
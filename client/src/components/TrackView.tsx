@@ -1,14 +1,37 @@
 /** @format */
 
 import React, { useState, useRef, useEffect } from "react";
-import { AudioTrack } from "@shared/schema";
-import { formatDuration } from "@/lib/audio";
+import { useQuery } from "@tanstack/react-query";
+import {
+	BeatGrid,
+	ProcessingSettings,
+	TrackStatusResponse,
+	TrackVersion,
+	TrackWithVersions,
+} from "@shared/schema";
+import {
+	describeRelease,
+	describeTempo,
+	formatDuration,
+	formatKey,
+	getTrackKey,
+	getTrackTitle,
+	getVocalMode,
+	vocalModeLabels,
+} from "@/lib/audio";
 import { useToast } from "@/hooks/use-toast";
+import { useTrackEvents } from "@/hooks/use-track-events";
+import { useAuth } from "@/hooks/use-auth";
+import { describeProcessingError } from "@/lib/processingErrors";
 import { queryClient } from "@/lib/queryClient";
 import VersionPlayer from "./VersionPlayer";
+import VersionHistory from "./VersionHistory";
+import WaveformCanvas from "./WaveformCanvas";
+import BeatGridEditor from "./BeatGridEditor";
+import TrackArtwork from "./TrackArtwork";
 
 interface TrackViewProps {
-	track: AudioTrack;
+	track: TrackWithVersions;
 	type: "original" | "extended";
 	version: number;
 }
@@ -24,123 +47,91 @@ const TrackView: React.FC<TrackViewProps> = ({ track, type, version }) => {
 		);
 	});
 
+	const [isSubmitting, setIsSubmitting] = useState(false);
+	const [isEditingGrid, setIsEditingGrid] = useState(false);
+	const [previewGrid, setPreviewGrid] = useState<BeatGrid | null>(null);
+
 	const audioRef = useRef<HTMLAudioElement>(null);
 	const progressIntervalRef = useRef<number>();
-	const statusIntervalRef = useRef<number>(); // Added ref for status polling interval
 	const { toast } = useToast();
+	const { user } = useAuth();
+
+	const trackVersion =
+		type === "extended" ? track.versions[version] : undefined;
+	const versionCount = track.versions.length;
+	// Unknown until the user has loaded; the limit UI stays hidden till then
+	const versionLimit = user?.versionLimit;
 
 	const displayTitle =
 		type === "original"
-			? track.originalFilename
-			: `${track.originalFilename.replace(/\.[^/.]+$/, "")} (Extended Mix v${
-					version + 1
-			  })${track.originalFilename.match(/\.[^/.]+$/)?.[0] || ""}`;
+			? getTrackTitle(track)
+			: `${getTrackTitle(track)} (Extended Mix v${
+					trackVersion?.versionNumber ?? version + 1
+			  })`;
+	const release = describeRelease(track);
 
 	const displayDuration =
-		type === "original"
-			? track.duration || 0
-			: track.extendedDurations?.[version] || 0;
+		type === "original" ? track.duration || 0 : trackVersion?.duration || 0;
+
+	const versionSettings = trackVersion?.settings;
+	const trackKey = getTrackKey(track);
 
 	const displayDetails = `${
 		type === "original" ? "Original" : "Extended"
 	} • ${formatDuration(displayDuration)} ${
-		track.bpm ? `• ${track.bpm} BPM` : ""
+		track.bpm ? `• ${describeTempo(track)}` : ""
 	}`;
 
-	// Initial status check effect
-	useEffect(() => {
-		if (isProcessing) {
-			const checkInitialStatus = async () => {
-				try {
-					const response = await fetch(`/api/tracks/${track.id}/status`);
-					const data = await response.json();
-					if (data.status === "completed") {
-						setIsProcessing(false);
-						localStorage.removeItem(`processing_${track.id}`);
-						queryClient.invalidateQueries({
-							queryKey: [`/api/tracks/${track.id}`],
-						});
-					}
-				} catch (error) {
-					console.error("Error checking status:", error);
-				}
-			};
-			checkInitialStatus();
-		}
-	}, [track.id]);
+	// Status is pushed over the track events socket; the query only refetches
+	// when an event for this track arrives
+	useTrackEvents();
+	const { data: statusData, isFetching: isFetchingStatus } =
+		useQuery<TrackStatusResponse>({
+			queryKey: [`/api/tracks/${track.id}/status`],
+			enabled: isProcessing || track.status === "error",
+			refetchOnMount: "always",
+		});
+
+	const failedJob =
+		statusData?.status === "error" && statusData.job?.status === "failed"
+			? statusData.job
+			: null;
+	const failure = failedJob
+		? describeProcessingError(failedJob.errorCode)
+		: null;
 
-	// Status polling effect
 	useEffect(() => {
-		if (isProcessing) {
-			const pollStatus = async () => {
-				try {
-					const response = await fetch(`/api/tracks/${track.id}/status`, {
-						headers: {
-							"Cache-Control": "no-cache",
-							Pragma: "no-cache",
-						},
-					});
-
-					if (!response.ok) throw new Error("Status check failed");
-					const data = await response.json();
-
-					if (data.status === "processing" || data.status === "regenerate") {
-						localStorage.setItem(`processing_${track.id}`, data.status);
-					} else if (data.status === "completed") {
-						setIsProcessing(false);
-						await queryClient.invalidateQueries({
-							queryKey: [`/api/tracks/${track.id}`],
-						});
-						localStorage.removeItem(`processing_${track.id}`);
-
-						// Clear the interval
-						if (statusIntervalRef.current) {
-							clearInterval(statusIntervalRef.current);
-							statusIntervalRef.current = undefined;
-						}
-
-						toast({
-							title: "Success",
-							description: "Track processing completed!",
-							duration: 3000,
-						});
-					} else if (data.status === "error") {
-						setIsProcessing(false);
-						localStorage.removeItem(`processing_${track.id}`);
-
-						// Clear the interval
-						if (statusIntervalRef.current) {
-							clearInterval(statusIntervalRef.current);
-							statusIntervalRef.current = undefined;
-						}
-
-						toast({
-							title: "Error",
-							description: "Processing failed",
-							variant: "destructive",
-							duration: 5000,
-						});
-					}
-				} catch (error) {
-					console.error("Error in status check:", error);
-				}
-			};
-
-			// Initial poll
-			pollStatus();
+		if (!isProcessing || !statusData || isFetchingStatus) return;
+
+		if (
+			statusData.status === "processing" ||
+			statusData.status === "regenerate"
+		) {
+			localStorage.setItem(`processing_${track.id}`, statusData.status);
+		} else if (statusData.status === "completed") {
+			setIsProcessing(false);
+			localStorage.removeItem(`processing_${track.id}`);
+			queryClient.invalidateQueries({
+				queryKey: [`/api/tracks/${track.id}`],
+			});
 
-			// Set up polling interval
-			statusIntervalRef.current = window.setInterval(pollStatus, 2000);
+			toast({
+				title: "Success",
+				description: "Track processing completed!",
+				duration: 3000,
+			});
+		} else if (statusData.status === "error") {
+			setIsProcessing(false);
+			localStorage.removeItem(`processing_${track.id}`);
 
-			// Return cleanup function
-			return () => {
-				if (statusIntervalRef.current) {
-					clearInterval(statusIntervalRef.current);
-					statusIntervalRef.current = undefined;
-				}
-			};
+			toast({
+				title: "Error",
+				description: describeProcessingError(statusData.job?.errorCode).title,
+				variant: "destructive",
+				duration: 5000,
+			});
 		}
-	}, [isProcessing, track.id, toast]);
+	}, [statusData, isFetchingStatus, track.id, toast]);
 
 	useEffect(() => {
 		if (audioRef.current) {
@@ -207,43 +198,44 @@ const TrackView: React.FC<TrackViewProps> = ({ track, type, version }) => {
 		setCurrentTime(audioRef.current.currentTime);
 	};
 
-	const handleProgressClick = (e: React.MouseEvent<HTMLDivElement>) => {
+	const handleSeek = (fraction: number) => {
 		if (!audioRef.current || !duration) return;
 
-		const progressBar = e.currentTarget;
-		const rect = progressBar.getBoundingClientRect();
-		const pos = (e.clientX - rect.left) / rect.width;
-		const newTime = pos * duration;
-
+		const newTime = fraction * duration;
 		audioRef.current.currentTime = newTime;
 		setCurrentTime(newTime);
 	};
 
-	const handleRegenerate = async () => {
+	const handleProgressClick = (e: React.MouseEvent<HTMLDivElement>) => {
+		const rect = e.currentTarget.getBoundingClientRect();
+		handleSeek((e.clientX - rect.left) / rect.width);
+	};
+
+	const startRender = async (settings: Partial<ProcessingSettings>) => {
+		setIsSubmitting(true);
+
 		try {
-			setIsProcessing(true);
 			const processResponse = await fetch(`/api/tracks/${track.id}/process`, {
 				method: "POST",
 				headers: {
 					"Content-Type": "application/json",
 				},
-				body: JSON.stringify(track.settings),
+				body: JSON.stringify(settings),
 			});
 
 			if (!processResponse.ok) {
 				throw new Error("Failed to start regeneration");
 			}
 
-			// Initial check to update localStorage
-			const initialStatusResponse = await fetch(
-				`/api/tracks/${track.id}/status`
-			);
-			if (initialStatusResponse.ok) {
-				const data = await initialStatusResponse.json();
-				localStorage.setItem(`processing_${track.id}`, data.status);
-			}
+			const data = await processResponse.json();
+			localStorage.setItem(`processing_${track.id}`, data.status);
 
-			// The polling will now be handled by the useEffect
+			// Drop the previous outcome before the status query switches on;
+			// completion then arrives as a pushed event and is handled above
+			queryClient.invalidateQueries({
+				queryKey: [`/api/tracks/${track.id}/status`],
+			});
+			setIsProcessing(true);
 		} catch (error) {
 			console.error("Regeneration error:", error);
 			toast({
@@ -252,22 +244,64 @@ const TrackView: React.FC<TrackViewProps> = ({ track, type, version }) => {
 				variant: "destructive",
 				duration: 5000,
 			});
-			setIsProcessing(false);
+		} finally {
+			setIsSubmitting(false);
 		}
 	};
 
+	// A new variation: same settings, but a fresh seed and default arrangement
+	const handleRegenerate = () => {
+		const {
+			seed: _seed,
+			introArrangement: _introArrangement,
+			arrangement: _arrangement,
+			...settings
+		} = track.settings ?? {};
+		return startRender(settings);
+	};
+
+	// Render again with the exact seed and arrangement a version used
+	const handleReproduce = (trackVersion: TrackVersion) =>
+		startRender({
+			...trackVersion.settings,
+			seed: trackVersion.seed ?? undefined,
+			introArrangement: trackVersion.introArrangement ?? undefined,
+		});
+
 	return (
 		<div>
-			<div className='flex flex-col md:flex-row items-center md:items-start gap-4 mb-6'>
-				<div className='w-32 h-32 bg-gradient-to-br from-gray-800 to-gray-900 rounded-lg flex items-center justify-center shadow-md flex-shrink-0'>
-					<span className='material-icons text-white text-5xl'>
-						{type === "original" ? "music_note" : "equalizer"}
-					</span>
+			{failedJob && failure && (
+				<div className='mb-6 rounded-md border border-red-200 bg-red-50 p-4 text-sm'>
+					<div className='flex items-start gap-2'>
+						<span className='material-icons text-red-500 text-base'>
+							error_outline
+						</span>
+						<div>
+							<p className='font-medium text-red-800'>{failure.title}</p>
+							{failedJob.errorMessage && (
+								<p className='text-red-700 mt-1'>{failedJob.errorMessage}</p>
+							)}
+							<p className='text-gray-700 mt-2'>{failure.suggestion}</p>
+						</div>
+					</div>
 				</div>
+			)}
+
+			<div className='flex flex-col md:flex-row items-center md:items-start gap-4 mb-6'>
+				<TrackArtwork
+					track={track}
+					icon={type === "original" ? "music_note" : "equalizer"}
+					className='w-32 h-32 bg-gradient-to-br from-gray-800 to-gray-900 rounded-lg shadow-md flex-shrink-0'
+					iconClassName='text-white text-5xl'
+				/>
 
 				<div className='flex-1'>
 					<div className='text-center md:text-left mb-2'>
 						<h3 className='text-xl font-bold'>{displayTitle}</h3>
+						{track.artist && (
+							<p className='text-gray-700 font-medium'>{track.artist}</p>
+						)}
+						{release && <p className='text-sm text-gray-500'>{release}</p>}
 						<p className='text-gray-500'>{displayDetails}</p>
 					</div>
 
@@ -287,14 +321,21 @@ const TrackView: React.FC<TrackViewProps> = ({ track, type, version }) => {
 							</div>
 							<div className='flex items-center gap-2'>
 								<span className='text-gray-500'>Key:</span>
-								<span className='font-medium'>{track.key || "Unknown"}</span>
+								<span className='font-medium'>
+									{formatKey(trackKey, user?.keyNotation) || "Unknown"}
+								</span>
+								{trackKey?.confidence != null && (
+									<span className='text-xs text-gray-400'>
+										{Math.round(trackKey.confidence * 100)}% confidence
+									</span>
+								)}
 							</div>
 						</div>
 						<div className='flex flex-wrap items-center gap-4'>
 							<div className='flex items-center gap-2'>
 								<span className='text-gray-500'>Tempo:</span>
 								<span className='font-medium'>
-									{track.bpm ? `${track.bpm} BPM` : "Unknown"}
+									{describeTempo(track) || "Unknown"}
 								</span>
 							</div>
 							<div className='flex items-center gap-2'>
@@ -304,12 +345,32 @@ const TrackView: React.FC<TrackViewProps> = ({ track, type, version }) => {
 								</span>
 							</div>
 						</div>
-						{type === "extended" && (
-							<div className='flex items-center gap-2'>
-								<span className='text-gray-500'>Intro Length:</span>
-								<span className='font-medium'>
-									{track.settings?.introLength} bars
-								</span>
+						{type === "extended" && versionSettings && (
+							<div className='flex flex-wrap items-center gap-4'>
+								<div className='flex items-center gap-2'>
+									<span className='text-gray-500'>Intro:</span>
+									<span className='font-medium'>
+										{versionSettings.introLength} bars
+									</span>
+								</div>
+								<div className='flex items-center gap-2'>
+									<span className='text-gray-500'>Outro:</span>
+									<span className='font-medium'>
+										{versionSettings.outroLength} bars
+									</span>
+								</div>
+								<div className='flex items-center gap-2'>
+									<span className='text-gray-500'>Vocals:</span>
+									<span className='font-medium'>
+										{vocalModeLabels[getVocalMode(versionSettings)]}
+									</span>
+								</div>
+								<div className='flex items-center gap-2'>
+									<span className='text-gray-500'>Beat Detection:</span>
+									<span className='font-medium capitalize'>
+										{versionSettings.beatDetection}
+									</span>
+								</div>
 							</div>
 						)}
 					</div>
@@ -318,67 +379,27 @@ const TrackView: React.FC<TrackViewProps> = ({ track, type, version }) => {
 
 			{type === "original" && (
 				<div className='mb-4'>
-					<h4 className='font-medium mb-2'>Waveform</h4>
-					<div className='waveform-container bg-gray-900 rounded-lg'>
-						<div className='waveform'>
-							<div className='waveform-bars flex items-center h-full p-4'>
-								{Array(type === "original" ? 120 : 150)
-									.fill(0)
-									.map((_, i) => {
-										const isIntroSection =
-											type === "extended" &&
-											i <=
-												((track.settings?.introLength || 16) / track.bpm) *
-													60 *
-													(150 / duration);
-										const isCurrentlyPlaying =
-											i / (type === "original" ? 120 : 150) <=
-											currentTime / duration;
-
-										return (
-											<div
-												key={`waveform-bar-${i}`}
-												className={
-													"waveform-bar transition-colors duration-300"
-												}
-												style={{
-													height: `${Math.floor(Math.random() * 70 + 10)}px`,
-													width: "100%",
-													margin: "0 1px",
-													background:
-														type === "extended"
-															? isCurrentlyPlaying
-																? isIntroSection
-																	? "linear-gradient(to top, #10b981, #34d399)"
-																	: "linear-gradient(to top, #7c3aed, #a78bfa)"
-																: isIntroSection
-																? "linear-gradient(to top, #064e3b, #065f46)"
-																: "linear-gradient(to top, #4c1d95, #5b21b6)"
-															: isCurrentlyPlaying
-															? "linear-gradient(to top, #7c3aed, #a78bfa)"
-															: "linear-gradient(to top, #4b5563, #6b7280)",
-												}}></div>
-										);
-									})}
-							</div>
-						</div>
+					<div className='flex items-center justify-between mb-2'>
+						<h4 className='font-medium'>Waveform</h4>
+						{!isEditingGrid && track.duration && (
+							<button
+								className='inline-flex items-center text-sm text-primary hover:underline'
+								onClick={() => setIsEditingGrid(true)}>
+								<span className='material-icons text-sm mr-1'>tune</span>
+								Edit beat grid
+							</button>
+						)}
 					</div>
+					<WaveformCanvas
+						trackId={track.id}
+						progress={duration ? currentTime / duration : 0}
+						onSeek={handleSeek}
+						beatGrid={previewGrid ?? track.beatGrid}
+					/>
 
 					<div
 						className='player-progress mt-2 mb-2 h-2 bg-gray-200 rounded-full overflow-hidden cursor-pointer relative'
 						onClick={handleProgressClick}>
-						{type === "extended" && (
-							<div
-								className='h-full bg-gradient-to-r from-emerald-500 to-emerald-400 absolute'
-								style={{
-									width: `${
-										((track.settings?.introLength || 16) / track.bpm) *
-										60 *
-										(100 / duration)
-									}%`,
-								}}
-							/>
-						)}
 						<div
 							className='h-full bg-gradient-to-r from-purple-600 to-purple-400 transition-all duration-300'
 							style={{
@@ -409,10 +430,19 @@ const TrackView: React.FC<TrackViewProps> = ({ track, type, version }) => {
 							{formatDuration(currentTime)} / {formatDuration(duration)}
 						</span>
 					</div>
+
+					{isEditingGrid && (
+						<BeatGridEditor
+							track={track}
+							currentTime={currentTime}
+							onPreview={setPreviewGrid}
+							onClose={() => setIsEditingGrid(false)}
+						/>
+					)}
 				</div>
 			)}
 
-			{type === "extended" && track.extendedPaths?.length > 0 && (
+			{type === "extended" && versionCount > 0 && (
 				<div className='mt-4'>
 					<div className='flex items-center gap-4 mb-2 text-xs'>
 						<div className='flex items-center gap-1'>
@@ -423,20 +453,34 @@ const TrackView: React.FC<TrackViewProps> = ({ track, type, version }) => {
 							<div className='w-3 h-3 rounded-sm bg-gradient-to-t from-[#7c3aed] to-[#a78bfa]'></div>
 							<span>Main</span>
 						</div>
+						<div className='flex items-center gap-1'>
+							<div className='w-3 h-3 rounded-sm bg-gradient-to-t from-[#f59e0b] to-[#fbbf24]'></div>
+							<span>Outro</span>
+						</div>
 					</div>
 					<div className='grid grid-cols-1 gap-6'>
-						{(track.extendedPaths || []).map((path, idx) => (
+						{track.versions.map((trackVersion) => (
 							<VersionPlayer
-								key={`${track.id}-version-${idx}`}
+								key={`${track.id}-version-${trackVersion.id}`}
 								track={track}
-								version={idx}
+								trackVersion={trackVersion}
 							/>
 						))}
-						{(track.extendedPaths?.length || 0) < 3 && (
+						<VersionHistory
+							track={track}
+							versionLimit={versionLimit}
+							disabled={isProcessing || isSubmitting}
+							canReproduce={
+								versionLimit !== undefined &&
+								versionCount < versionLimit &&
+								track.status !== "processing"
+							}
+							onReproduce={handleReproduce}
+						/>
+						{versionLimit === undefined ? null : versionCount < versionLimit ? (
 							<div>
 								<div className='text-sm text-gray-500 mb-2'>
-									Regenerations remaining:{" "}
-									{2 - ((track.extendedPaths?.length || 1) - 1)}
+									Regenerations remaining: {versionLimit - versionCount}
 								</div>
 								<button
 									className='inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-primary hover:bg-primary-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:opacity-50'
@@ -444,9 +488,10 @@ const TrackView: React.FC<TrackViewProps> = ({ track, type, version }) => {
 									disabled={
 										track.status === "processing" ||
 										isProcessing ||
-										(track.extendedPaths?.length || 0) >= 3
+										isSubmitting ||
+										versionCount >= versionLimit
 									}>
-									{isProcessing ? (
+									{isProcessing || isSubmitting ? (
 										<>
 											<svg
 												className='animate-spin -ml-1 mr-2 h-4 w-4 text-white'
@@ -477,6 +522,11 @@ const TrackView: React.FC<TrackViewProps> = ({ track, type, version }) => {
 									)}
 								</button>
 							</div>
+						) : (
+							<div className='text-sm text-gray-500'>
+								You've reached the limit of {versionLimit} versions for this
+								track. Delete an unpinned version to regenerate.
+							</div>
 						)}
 					</div>
 				</div>
@@ -484,7 +534,11 @@ const TrackView: React.FC<TrackViewProps> = ({ track, type, version }) => {
 
 			<audio
 				ref={audioRef}
-				src={`/api/audio/${track.id}/${type}`}
+				src={
+					trackVersion
+						? `/api/audio/${track.id}/extended?versionId=${trackVersion.id}`
+						: `/api/audio/${track.id}/${type}`
+				}
 				preload='metadata'
 				style={{ display: "none" }}
 			/>
@@ -0,0 +1,233 @@
+/** @format */
+
+import React, { useState } from "react";
+import {
+	TrackWithVersions,
+	TrackVersion,
+	UpdateTrackVersion,
+} from "@shared/schema";
+import { describeSettings, formatDuration, getVersionName } from "@/lib/audio";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { libraryExportLabels, libraryExportUrl } from "@/lib/libraryExport";
+import { useToast } from "@/hooks/use-toast";
+
+interface VersionHistoryProps {
+	track: TrackWithVersions;
+	versionLimit?: number; // unknown until the user has loaded
+	disabled?: boolean; // true while a render is queued or running
+	canReproduce?: boolean; // false once every slot is used
+	onReproduce: (version: TrackVersion) => void;
+}
+
+/**
+ * Every extended version of a track, with rename, pin and delete so users
+ * can free slots under their version limit. Pinned versions can't be deleted.
+ * Reproduce renders a new version with the same seed and intro arrangement.
+ */
+const VersionHistory: React.FC<VersionHistoryProps> = ({
+	track,
+	versionLimit,
+	disabled,
+	canReproduce,
+	onReproduce,
+}) => {
+	const [editingId, setEditingId] = useState<number | null>(null);
+	const [draftLabel, setDraftLabel] = useState("");
+	const [busyId, setBusyId] = useState<number | null>(null);
+	const { toast } = useToast();
+
+	const applyUpdatedTrack = async (response: Response) => {
+		const updatedTrack = await response.json();
+		queryClient.setQueryData([`/api/tracks/${track.id}`], updatedTrack);
+		queryClient.invalidateQueries({ queryKey: ["/api/tracks"] });
+	};
+
+	const updateVersion = async (index: number, update: UpdateTrackVersion) => {
+		const trackVersion = track.versions[index];
+		setBusyId(trackVersion.id);
+
+		try {
+			const response = await apiRequest(
+				"PATCH",
+				`/api/tracks/${track.id}/versions/${trackVersion.id}`,
+				update
+			);
+			await applyUpdatedTrack(response);
+		} catch (error) {
+			console.error("Update version error:", error);
+			toast({
+				title: "Error",
+				description: "Failed to update version.",
+				variant: "destructive",
+			});
+		} finally {
+			setBusyId(null);
+		}
+	};
+
+	const startRename = (trackVersion: TrackVersion) => {
+		setEditingId(trackVersion.id);
+		setDraftLabel(trackVersion.label ?? "");
+	};
+
+	const saveRename = async (index: number) => {
+		setEditingId(null);
+		const trackVersion = track.versions[index];
+		const label = draftLabel.trim();
+		if (label === (trackVersion.label ?? "")) return;
+
+		await updateVersion(index, { label: label || null });
+	};
+
+	const deleteVersion = async (index: number) => {
+		const trackVersion = track.versions[index];
+		const versionName = getVersionName(trackVersion);
+		if (!window.confirm(`Delete ${versionName}? This cannot be undone.`)) {
+			return;
+		}
+
+		setBusyId(trackVersion.id);
+
+		try {
+			const response = await apiRequest(
+				"DELETE",
+				`/api/tracks/${track.id}/versions/${trackVersion.id}`
+			);
+			await applyUpdatedTrack(response);
+
+			toast({
+				title: "Version Deleted",
+				description: `${versionName} has been removed.`,
+			});
+		} catch (error) {
+			console.error("Delete version error:", error);
+			toast({
+				title: "Error",
+				description: "Failed to delete version.",
+				variant: "destructive",
+			});
+		} finally {
+			setBusyId(null);
+		}
+	};
+
+	return (
+		<div className='bg-white border border-gray-200 rounded-lg p-4'>
+			<div className='flex justify-between items-center mb-3'>
+				<h4 className='text-sm font-semibold text-gray-700'>Version History</h4>
+				{versionLimit !== undefined && (
+					<span className='text-xs text-gray-500'>
+						{track.versions.length} of {versionLimit} slots used
+					</span>
+				)}
+			</div>
+
+			<ul className='divide-y divide-gray-100'>
+				{track.versions.map((trackVersion, index) => {
+					const isBusy = busyId === trackVersion.id;
+
+					return (
+						<li
+							key={`${track.id}-history-${trackVersion.id}`}
+							className='flex items-center justify-between py-2 gap-4'>
+							<div className='min-w-0'>
+								{editingId === trackVersion.id ? (
+									<input
+										className='text-sm border border-gray-300 rounded px-2 py-1 w-full'
+										value={draftLabel}
+										maxLength={80}
+										placeholder={`Version ${trackVersion.versionNumber}`}
+										autoFocus
+										onChange={(e) => setDraftLabel(e.target.value)}
+										onBlur={() => saveRename(index)}
+										onKeyDown={(e) => {
+											if (e.key === "Enter") saveRename(index);
+											if (e.key === "Escape") setEditingId(null);
+										}}
+									/>
+								) : (
+									<div className='text-sm font-medium truncate'>
+										{getVersionName(trackVersion)}
+										{trackVersion.label && (
+											<span className='text-xs text-gray-400 ml-2'>
+												v{trackVersion.versionNumber}
+											</span>
+										)}
+									</div>
+								)}
+								<p className='text-xs text-gray-500 truncate'>
+									{[
+										new Date(trackVersion.createdAt).toLocaleString(),
+										formatDuration(trackVersion.duration ?? 0),
+										...describeSettings(trackVersion.settings),
+									].join(" • ")}
+								</p>
+								{trackVersion.introArrangement && (
+									<p className='text-xs text-gray-400 truncate'>
+										Intro: {trackVersion.introArrangement.join(" → ")}
+										{trackVersion.seed !== null &&
+											` • Seed ${trackVersion.seed}`}
+									</p>
+								)}
+							</div>
+
+							<div className='flex items-center gap-1 shrink-0'>
+								<button
+									className='p-1 rounded hover:bg-gray-100 disabled:opacity-50'
+									onClick={() => startRename(trackVersion)}
+									disabled={isBusy}
+									title='Rename'>
+									<span className='material-icons text-sm'>edit</span>
+								</button>
+								<button
+									className={`p-1 rounded hover:bg-gray-100 disabled:opacity-50 ${
+										trackVersion.pinned ? "text-primary" : "text-gray-400"
+									}`}
+									onClick={() =>
+										updateVersion(index, { pinned: !trackVersion.pinned })
+									}
+									disabled={isBusy}
+									title={trackVersion.pinned ? "Unpin" : "Pin"}>
+									<span className='material-icons text-sm'>push_pin</span>
+								</button>
+								<button
+									className='p-1 rounded hover:bg-gray-100 disabled:opacity-50'
+									onClick={() => onReproduce(trackVersion)}
+									disabled={isBusy || disabled || !canReproduce}
+									title='Render again with the same seed and arrangement'>
+									<span className='material-icons text-sm'>replay</span>
+								</button>
+								<button
+									className='p-1 rounded text-red-600 hover:bg-red-50 disabled:opacity-50'
+									onClick={() => deleteVersion(index)}
+									disabled={isBusy || disabled || trackVersion.pinned}
+									title={
+										trackVersion.pinned
+											? "Unpin this version to delete it"
+											: "Delete"
+									}>
+									<span className='material-icons text-sm'>delete</span>
+								</button>
+							</div>
+						</li>
+					);
+				})}
+			</ul>
+
+			<div className='flex flex-wrap items-center gap-2 pt-3 mt-1 border-t border-gray-100 text-xs text-gray-500'>
+				<span>Export with cues and beat grid:</span>
+				{Object.entries(libraryExportLabels).map(([file, label]) => (
+					<a
+						key={file}
+						className='text-primary hover:underline'
+						href={libraryExportUrl(file, track.id)}
+						download>
+						{label}
+					</a>
+				))}
+			</div>
+		</div>
+	);
+};
+
+export default VersionHistory;
@@ -1,20 +1,55 @@
 /** @format */
 
-import React, { useState, useRef, useEffect } from "react";
-import { AudioTrack } from "@shared/schema";
-import { formatDuration } from "@/lib/audio";
+import React, { useState, useRef, useEffect, useMemo } from "react";
+import { TrackVersion, TrackWithVersions } from "@shared/schema";
+import { describeSettings, formatDuration, getVersionName } from "@/lib/audio";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { WaveformSection } from "@/lib/waveform";
+import WaveformCanvas from "./WaveformCanvas";
 
 interface VersionPlayerProps {
-	track: AudioTrack;
-	version: number;
+	track: TrackWithVersions;
+	trackVersion: TrackVersion;
 }
 
-const VersionPlayer: React.FC<VersionPlayerProps> = ({ track, version }) => {
+const VersionPlayer: React.FC<VersionPlayerProps> = ({
+	track,
+	trackVersion,
+}) => {
 	const [isPlaying, setIsPlaying] = useState(false);
 	const [currentTime, setCurrentTime] = useState(0);
 	const [duration, setDuration] = useState(0);
+	const [isDeleting, setIsDeleting] = useState(false);
+	const versionName = getVersionName(trackVersion);
+
+	// Section boundaries as fractions of the version. Versions rendered before
+	// markers were recorded only have an intro, estimated from the durations.
+	const extendedLength = trackVersion.duration || duration;
+	const introEnd =
+		trackVersion.introEnd ??
+		Math.max(0, extendedLength - (track.duration || 0));
+	const outroStart = trackVersion.outroStart ?? extendedLength;
+	const sections = useMemo<WaveformSection[]>(() => {
+		if (!extendedLength) return [];
+		return [
+			{
+				start: 0,
+				end: introEnd / extendedLength,
+				waveColor: "#064e3b", // Unplayed intro (dark green)
+				progressColor: "#10b981", // Playing intro (green)
+			},
+			{
+				start: outroStart / extendedLength,
+				end: 1,
+				waveColor: "#78350f", // Unplayed outro (dark amber)
+				progressColor: "#f59e0b", // Playing outro (amber)
+			},
+		];
+	}, [introEnd, outroStart, extendedLength]);
 	const audioRef = useRef<HTMLAudioElement>(null);
 	const progressIntervalRef = useRef<number>();
+	const { toast } = useToast();
 
 	useEffect(() => {
 		if (audioRef.current) {
@@ -63,6 +98,12 @@ const VersionPlayer: React.FC<VersionPlayerProps> = ({ track, version }) => {
 		}
 	};
 
+	const handleSeek = (fraction: number) => {
+		if (!audioRef.current || !duration) return;
+		audioRef.current.currentTime = fraction * duration;
+		setCurrentTime(audioRef.current.currentTime);
+	};
+
 	const handleSkipBack = () => {
 		if (!audioRef.current) return;
 		audioRef.current.currentTime = Math.max(
@@ -81,60 +122,95 @@ const VersionPlayer: React.FC<VersionPlayerProps> = ({ track, version }) => {
 		setCurrentTime(audioRef.current.currentTime);
 	};
 
+	const handleDeleteVersion = async () => {
+		if (!window.confirm(`Delete ${versionName}? This cannot be undone.`)) {
+			return;
+		}
+
+		setIsDeleting(true);
+		audioRef.current?.pause();
+
+		try {
+			const response = await apiRequest(
+				"DELETE",
+				`/api/tracks/${track.id}/versions/${trackVersion.id}`
+			);
+			const updatedTrack = await response.json();
+			queryClient.setQueryData([`/api/tracks/${track.id}`], updatedTrack);
+			queryClient.invalidateQueries({ queryKey: ["/api/tracks"] });
+
+			toast({
+				title: "Version Deleted",
+				description: `${versionName} has been removed.`,
+			});
+		} catch (error) {
+			console.error("Delete version error:", error);
+			toast({
+				title: "Error",
+				description: "Failed to delete version.",
+				variant: "destructive",
+			});
+			setIsDeleting(false);
+		}
+	};
+
 	return (
 		<div className='bg-gray-50 rounded-lg p-4 mb-4'>
 			<div className='flex justify-between items-center mb-4'>
-				<div className='text-lg font-medium'>Version {version + 1}</div>
-				<a
-					href={`/api/tracks/${track.id}/download?version=${version}`}
-					className='inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-primary hover:bg-primary-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary'
-					download>
-					<span className='material-icons text-sm mr-1 mt-1'>download</span>
-					Download
-				</a>
-			</div>
-
-			<div className='waveform-container bg-gray-900 rounded-lg'>
-				<div className='waveform'>
-					<div className='waveform-bars flex items-center h-full p-4'>
-						{Array(150)
-							.fill(0)
-							.map((_, i) => {
-								const originalLength = track.duration || 0;
-								const extendedLength =
-									track.extendedDurations?.[version] ||
-									track.extendedDuration ||
-									duration;
-								const introLength = Math.max(
-									0,
-									extendedLength - originalLength
-								);
-								const introSection = (introLength / extendedLength) * 150;
-
-								const isIntroSection = i <= introSection;
-								const isCurrentlyPlaying = i / 150 <= currentTime / duration;
-								return (
-									<div
-										key={`version-${version}-waveform-${i}`}
-										className='waveform-bar transition-colors duration-300'
-										style={{
-											height: `${Math.floor(Math.random() * 70 + 10)}px`,
-											width: "3px",
-											margin: "0 1px",
-											background: isCurrentlyPlaying
-												? isIntroSection
-													? "linear-gradient(to top, #10b981, #34d399)" // Playing intro (green)
-													: "linear-gradient(to top, #7c3aed, #a78bfa)" // Playing main (purple)
-												: isIntroSection
-												? "linear-gradient(to top, #064e3b, #065f46)" // Unplayed intro (dark green)
-												: "linear-gradient(to top, #4c1d95, #5b21b6)", // Unplayed main (dark purple)
-										}}></div>
-								);
-							})}
+				<div>
+					<div className='text-lg font-medium flex items-center gap-1'>
+						{versionName}
+						{trackVersion.pinned && (
+							<span
+								className='material-icons text-sm text-primary'
+								title='Pinned'>
+								push_pin
+							</span>
+						)}
 					</div>
+					<p className='text-xs text-gray-500'>
+						{[
+							...describeSettings(trackVersion.settings),
+							trackVersion.seed !== null ? `Seed ${trackVersion.seed}` : null,
+							`Created ${new Date(trackVersion.createdAt).toLocaleString()}`,
+						]
+							.filter(Boolean)
+							.join(" • ")}
+					</p>
+				</div>
+				<div className='flex items-center gap-2'>
+					<button
+						className='inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-red-600 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50'
+						onClick={handleDeleteVersion}
+						disabled={isDeleting || trackVersion.pinned}
+						title={
+							trackVersion.pinned
+								? "Unpin this version to delete it"
+								: "Delete this version"
+						}>
+						<span className='material-icons text-sm'>delete</span>
+					</button>
+					<a
+						href={`/api/tracks/${track.id}/download?versionId=${trackVersion.id}`}
+						className='inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-primary hover:bg-primary-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary'
+						download>
+						<span className='material-icons text-sm mr-1 mt-1'>download</span>
+						Download
+					</a>
 				</div>
 			</div>
 
+			<WaveformCanvas
+				trackId={track.id}
+				versionId={trackVersion.id}
+				progress={duration ? currentTime / duration : 0}
+				onSeek={handleSeek}
+				sections={sections}
+				beatGrid={trackVersion.beatGrid}
+				waveColor='#4c1d95'
+				progressColor='#7c3aed'
+			/>
+
 			<div
 				className='player-progress mt-2 mb-2 h-2 bg-gray-200 rounded-full overflow-hidden cursor-pointer'
 				onClick={(e) => {
@@ -178,7 +254,7 @@ const VersionPlayer: React.FC<VersionPlayerProps> = ({ track, version }) => {
 
 			<audio
 				ref={audioRef}
-				src={`/api/audio/${track.id}/extended?version=${version}`}
+				src={`/api/audio/${track.id}/extended?versionId=${trackVersion.id}`}
 				preload='metadata'
 				onLoadedMetadata={(e) =>
 					setDuration((e.target as HTMLAudioElement).duration)
@@ -0,0 +1,92 @@
+/** @format */
+
+import React, { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { BeatGrid, WaveformPeaks } from "@shared/schema";
+import { drawWaveform, WaveformSection } from "@/lib/waveform";
+
+interface WaveformCanvasProps {
+	trackId: number;
+	versionId?: number; // an extended version; omit for the original
+	progress: number; // 0..1
+	onSeek?: (fraction: number) => void;
+	sections?: WaveformSection[];
+	beatGrid?: BeatGrid | null; // draws bar lines at its downbeats
+	waveColor?: string;
+	progressColor?: string;
+	height?: number;
+}
+
+/**
+ * Waveform drawn from the server-computed peaks of the original or of one
+ * extended version. Clicking seeks to that point when `onSeek` is given.
+ */
+const WaveformCanvas: React.FC<WaveformCanvasProps> = ({
+	trackId,
+	versionId,
+	progress,
+	onSeek,
+	sections,
+	beatGrid,
+	waveColor,
+	progressColor,
+	height = 96,
+}) => {
+	const canvasRef = useRef<HTMLCanvasElement>(null);
+
+	const peaksUrl =
+		versionId === undefined
+			? `/api/tracks/${trackId}/peaks`
+			: `/api/tracks/${trackId}/peaks?versionId=${versionId}`;
+	const { data: peaks, isError } = useQuery<WaveformPeaks>({
+		queryKey: [peaksUrl],
+	});
+
+	useEffect(() => {
+		const canvas = canvasRef.current;
+		if (!canvas || !peaks) return;
+
+		const downbeats = peaks.duration
+			? beatGrid?.downbeats.map((time) => time / peaks.duration)
+			: undefined;
+		const draw = () =>
+			drawWaveform(canvas, peaks, {
+				progress,
+				sections,
+				downbeats,
+				waveColor,
+				progressColor,
+			});
+		draw();
+
+		// Bars are resampled to the width, so redraw when it changes
+		const observer = new ResizeObserver(draw);
+		observer.observe(canvas);
+		return () => observer.disconnect();
+	}, [peaks, progress, sections, beatGrid, waveColor, progressColor]);
+
+	const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+		if (!onSeek) return;
+		const rect = e.currentTarget.getBoundingClientRect();
+		onSeek(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+	};
+
+	return (
+		<div
+			className='relative bg-gray-900 rounded-lg p-4'
+			style={{ height: height + 32 }}>
+			<canvas
+				ref={canvasRef}
+				className={`w-full h-full ${onSeek ? "cursor-pointer" : ""}`}
+				onClick={handleClick}
+			/>
+			{!peaks && (
+				<div className='absolute inset-0 flex items-center justify-center text-xs text-gray-400'>
+					{isError ? "Waveform unavailable" : "Loading waveform..."}
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default WaveformCanvas;
@@ -0,0 +1,129 @@
+/** @format */
+
+import React, { createContext, useContext } from "react";
+import {
+	useQuery,
+	useMutation,
+	UseMutationResult,
+} from "@tanstack/react-query";
+import { User, InsertUser, UpdateUser } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// What /api/user returns: the user without the password hash, plus the
+// resolved number of extended versions allowed per track
+export type PublicUser = Omit<User, "password"> & { versionLimit: number };
+
+type AuthContextType = {
+	user: PublicUser | null;
+	isLoading: boolean;
+	loginMutation: UseMutationResult<PublicUser, Error, InsertUser>;
+	registerMutation: UseMutationResult<PublicUser, Error, InsertUser>;
+	logoutMutation: UseMutationResult<void, Error, void>;
+	updateUserMutation: UseMutationResult<PublicUser, Error, UpdateUser>;
+};
+
+// Per-user UI state that must not leak into the next session
+const sessionStorageKeys = ["currentTrackId", "isProcessing", "isProcessed"];
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+	const { toast } = useToast();
+	const { data: user, isLoading } = useQuery<PublicUser | null>({
+		queryKey: ["/api/user"],
+		queryFn: getQueryFn({ on401: "returnNull" }),
+	});
+
+	const onAuthenticated = (authenticatedUser: PublicUser) => {
+		queryClient.clear();
+		queryClient.setQueryData(["/api/user"], authenticatedUser);
+	};
+
+	const loginMutation = useMutation<PublicUser, Error, InsertUser>({
+		mutationFn: async (credentials) => {
+			const res = await apiRequest("POST", "/api/login", credentials);
+			return await res.json();
+		},
+		onSuccess: onAuthenticated,
+		onError: (error) => {
+			toast({
+				title: "Login failed",
+				description: error.message,
+				variant: "destructive",
+			});
+		},
+	});
+
+	const registerMutation = useMutation<PublicUser, Error, InsertUser>({
+		mutationFn: async (credentials) => {
+			const res = await apiRequest("POST", "/api/register", credentials);
+			return await res.json();
+		},
+		onSuccess: onAuthenticated,
+		onError: (error) => {
+			toast({
+				title: "Registration failed",
+				description: error.message,
+				variant: "destructive",
+			});
+		},
+	});
+
+	const logoutMutation = useMutation<void, Error, void>({
+		mutationFn: async () => {
+			await apiRequest("POST", "/api/logout");
+		},
+		onSuccess: () => {
+			sessionStorageKeys.forEach((key) => localStorage.removeItem(key));
+			queryClient.clear();
+			queryClient.setQueryData(["/api/user"], null);
+		},
+		onError: (error) => {
+			toast({
+				title: "Logout failed",
+				description: error.message,
+				variant: "destructive",
+			});
+		},
+	});
+
+	const updateUserMutation = useMutation<PublicUser, Error, UpdateUser>({
+		mutationFn: async (update) => {
+			const res = await apiRequest("PATCH", "/api/user", update);
+			return await res.json();
+		},
+		onSuccess: (updatedUser) => {
+			queryClient.setQueryData(["/api/user"], updatedUser);
+		},
+		onError: (error) => {
+			toast({
+				title: "Could not save preferences",
+				description: error.message,
+				variant: "destructive",
+			});
+		},
+	});
+
+	return (
+		<AuthContext.Provider
+			value={{
+				user: user ?? null,
+				isLoading,
+				loginMutation,
+				registerMutation,
+				logoutMutation,
+				updateUserMutation,
+			}}>
+			{children}
+		</AuthContext.Provider>
+	);
+}
+
+export function useAuth() {
+	const context = useContext(AuthContext);
+	if (!context) {
+		throw new Error("useAuth must be used within an AuthProvider");
+	}
+	return context;
+}
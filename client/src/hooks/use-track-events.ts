@@ -0,0 +1,120 @@
+/** @format */
+
+import { useEffect, useRef } from "react";
+import type { TrackEvent } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+
+type TrackEventListener = (event: TrackEvent) => void;
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+// One socket per browser tab, shared by every component using the hook
+let socket: WebSocket | null = null;
+let subscriberCount = 0;
+let reconnectAttempts = 0;
+let reconnectTimer: number | undefined;
+const listeners = new Set<TrackEventListener>();
+
+function invalidateTrackQueries(trackId?: number) {
+	if (trackId === undefined) {
+		queryClient.invalidateQueries({
+			predicate: (query) =>
+				typeof query.queryKey[0] === "string" &&
+				query.queryKey[0].startsWith("/api/tracks"),
+		});
+		return;
+	}
+
+	queryClient.invalidateQueries({
+		queryKey: [`/api/tracks/${trackId}/status`],
+	});
+}
+
+function handleEvent(event: TrackEvent) {
+	invalidateTrackQueries(event.trackId);
+
+	// Progress and queue updates only change the status route; anything else
+	// can change the track record and the library list too
+	if (event.type !== "progress" && event.type !== "queue") {
+		queryClient.invalidateQueries({
+			queryKey: [`/api/tracks/${event.trackId}`],
+		});
+		queryClient.invalidateQueries({ queryKey: ["/api/tracks"] });
+	}
+
+	listeners.forEach((listener) => listener(event));
+}
+
+function connect() {
+	const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+	const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+	socket = ws;
+
+	ws.onopen = () => {
+		// Catch up on anything that changed while we were disconnected
+		if (reconnectAttempts > 0) {
+			invalidateTrackQueries();
+		}
+		reconnectAttempts = 0;
+	};
+
+	ws.onmessage = (message) => {
+		try {
+			handleEvent(JSON.parse(message.data) as TrackEvent);
+		} catch (error) {
+			console.error("Invalid track event:", error);
+		}
+	};
+
+	ws.onclose = () => {
+		if (socket !== ws) return;
+		socket = null;
+
+		if (subscriberCount > 0) {
+			const delay = Math.min(
+				RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts,
+				RECONNECT_MAX_DELAY_MS
+			);
+			reconnectAttempts++;
+			reconnectTimer = window.setTimeout(connect, delay);
+		}
+	};
+}
+
+function disconnect() {
+	window.clearTimeout(reconnectTimer);
+	const ws = socket;
+	socket = null;
+	reconnectAttempts = 0;
+	ws?.close();
+}
+
+/**
+ * Subscribe to pushed track events from /ws. Every event invalidates the
+ * matching React Query caches; `onEvent` is called afterwards for components
+ * that also need to react (toasts, callbacks).
+ */
+export function useTrackEvents(onEvent?: TrackEventListener) {
+	const onEventRef = useRef(onEvent);
+	onEventRef.current = onEvent;
+
+	useEffect(() => {
+		const listener: TrackEventListener = (event) =>
+			onEventRef.current?.(event);
+		listeners.add(listener);
+
+		subscriberCount++;
+		if (!socket) {
+			connect();
+		}
+
+		return () => {
+			listeners.delete(listener);
+			subscriberCount--;
+			if (subscriberCount === 0) {
+				disconnect();
+			}
+		};
+	}, []);
+}
@@ -2,6 +2,21 @@
  * Utility functions for audio processing and playback
  */
 
+import type {
+  Arrangement,
+  ArrangementBlock,
+  AudioTrack,
+  KeyNotation,
+  OutputFormat,
+  ProcessingSettings,
+  TempoMap,
+  TrackVersion,
+  VocalMode,
+} from "@shared/schema";
+import { camelotNumber, pitchClassNames, type TrackKey } from "@shared/musicalKey";
+
+export { camelotNumber, getTrackKey, type TrackKey } from "@shared/musicalKey";
+
 export interface AudioInfo {
   duration: number;
   format: string;
@@ -28,15 +43,141 @@ export function calculateBars(beats: number, timeSignature = 4): number {
   return Math.floor(beats / timeSignature);
 }
 
+/**
+ * Format a BPM with up to two decimals, dropping trailing zeros (128, 127.5)
+ */
+export function formatBpm(bpm: number): string {
+  return String(Math.round(bpm * 100) / 100);
+}
+
+/**
+ * Tempo label for a track: a single BPM, or its range when the tempo map
+ * has more than one segment. Null when no tempo was detected.
+ */
+export function describeTempo(track: Pick<AudioTrack, "bpm" | "tempoMap">): string | null {
+  const tempos = track.tempoMap?.map((segment) => segment.bpm) ?? [];
+  if (tempos.length > 1) {
+    const low = formatBpm(Math.min(...tempos));
+    const high = formatBpm(Math.max(...tempos));
+    return `${low}–${high} BPM (variable)`;
+  }
+  return track.bpm ? `${formatBpm(track.bpm)} BPM` : null;
+}
+
+/**
+ * Tempo in effect at a time, from a fixed BPM or a tempo map
+ * @param tempo BPM, or tempo segments sorted by start time
+ * @param time Seconds from the start of the track
+ */
+export function tempoAt(tempo: number | TempoMap, time: number): number {
+  if (typeof tempo === "number") return tempo;
+  let current = tempo[0]?.bpm ?? 0;
+  for (const segment of tempo) {
+    if (segment.start > time) break;
+    current = segment.bpm;
+  }
+  return current;
+}
+
 /**
  * Calculate duration in seconds from tempo (BPM) and number of bars
- * @param bpm Tempo in beats per minute
+ * @param tempo Tempo in beats per minute, or a tempo map
  * @param bars Number of bars
  * @param timeSignature Time signature (e.g., 4 for 4/4)
+ * @param startTime Where the bars start, in seconds; only matters for a tempo map
  */
-export function calculateDurationFromBars(bpm: number, bars: number, timeSignature = 4): number {
-  // Duration = (bars * timeSignature * 60) / BPM
-  return (bars * timeSignature * 60) / bpm;
+export function calculateDurationFromBars(
+  tempo: number | TempoMap,
+  bars: number,
+  timeSignature = 4,
+  startTime = 0
+): number {
+  if (typeof tempo === "number") {
+    // Duration = (bars * timeSignature * 60) / BPM
+    return (bars * timeSignature * 60) / tempo;
+  }
+
+  // Spend the beats segment by segment, each at its own tempo
+  let beats = bars * timeSignature;
+  let time = startTime;
+  while (beats > 0) {
+    const bpm = tempoAt(tempo, time);
+    if (!bpm) break;
+    const nextChange = tempo.find((segment) => segment.start > time)?.start;
+    const beatsToChange =
+      nextChange === undefined ? Infinity : ((nextChange - time) * bpm) / 60;
+    if (beats >= beatsToChange) {
+      // Land exactly on the change so rounding can't stall the loop
+      time = nextChange!;
+      beats -= beatsToChange;
+    } else {
+      time += (beats * 60) / bpm;
+      beats = 0;
+    }
+  }
+  return time - startTime;
+}
+
+/**
+ * Tempo to time bars against: a variable-tempo track's tempo map, otherwise
+ * its BPM. Null when no tempo was detected.
+ */
+export function getTrackTempo(
+  track: Pick<AudioTrack, "bpm" | "tempoMap">
+): number | TempoMap | null {
+  if (track.tempoMap && track.tempoMap.length > 1) return track.tempoMap;
+  return track.bpm || null;
+}
+
+/**
+ * Length in seconds of an extended intro or outro. The intro is timed from
+ * the track's opening tempo; the outro is cut from its last phrases, so it
+ * runs at the closing tempo.
+ */
+export function calculateSectionDuration(
+  tempo: number | TempoMap,
+  section: "intro" | "outro",
+  bars: number
+): number {
+  return section === "intro"
+    ? calculateDurationFromBars(tempo, bars)
+    : calculateDurationFromBars(tempoAt(tempo, Infinity), bars);
+}
+
+export const keyNotationLabels: Record<KeyNotation, string> = {
+  camelot: "Camelot",
+  openKey: "Open Key",
+  musical: "Musical",
+};
+
+/**
+ * Render a key as Camelot (8A), Open Key (1m) or musical (A minor) notation
+ */
+export function formatKey(key: TrackKey | null, notation: KeyNotation = "camelot"): string | null {
+  if (!key) return null;
+  const camelot = camelotNumber(key);
+  switch (notation) {
+    case "camelot":
+      return `${camelot}${key.mode === "minor" ? "A" : "B"}`;
+    case "openKey":
+      // Open Key starts its wheel at C major, Camelot's 8B
+      return `${((camelot + 4) % 12) + 1}${key.mode === "minor" ? "m" : "d"}`;
+    case "musical":
+      return `${pitchClassNames[key.tonic]} ${key.mode}`;
+  }
+}
+
+/**
+ * Sort order for keys: round the Camelot wheel, minor before major at each
+ * position, so harmonically compatible keys sit next to each other. Tracks
+ * without a key sort last.
+ */
+export function compareKeys(a: TrackKey | null, b: TrackKey | null): number {
+  if (!a || !b) return a ? -1 : b ? 1 : 0;
+  return (
+    camelotNumber(a) - camelotNumber(b) ||
+    (a.mode === b.mode ? 0 : a.mode === "minor" ? -1 : 1)
+  );
 }
 
 /**
@@ -53,3 +194,117 @@ export function isSupportedFormat(format: string): boolean {
 export function isWithinSizeLimit(sizeInBytes: number, maxSizeMB = 15): boolean {
   return sizeInBytes <= maxSizeMB * 1024 * 1024;
 }
+
+/**
+ * Vocal mode a version was rendered with. Settings stored before vocal modes
+ * existed only have preserveVocals, which kept vocals everywhere.
+ */
+export function getVocalMode(settings: ProcessingSettings): VocalMode {
+  return settings.vocalMode ?? (settings.preserveVocals ? "full" : "instrumental");
+}
+
+export const vocalModeLabels: Record<VocalMode, string> = {
+  full: "Vocals throughout",
+  mainOnly: "Vocals in main body only",
+  instrumental: "Instrumental",
+};
+
+export const outputFormatLabels: Record<OutputFormat, string> = {
+  wav: "WAV",
+  aiff: "AIFF",
+  flac: "FLAC",
+  mp3: "MP3",
+};
+
+/**
+ * Output format and quality of a render, e.g. "FLAC 24-bit 48 kHz" or
+ * "MP3 320 kbps". Null for versions rendered before formats could be chosen.
+ */
+export function describeOutputFormat(settings: ProcessingSettings): string | null {
+  if (!settings.outputFormat) return null;
+  return [
+    outputFormatLabels[settings.outputFormat],
+    settings.outputFormat === "mp3"
+      ? `${settings.mp3Bitrate ?? 320} kbps`
+      : settings.bitDepth && `${settings.bitDepth}-bit`,
+    settings.sampleRate && `${settings.sampleRate / 1000} kHz`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Short human-readable summary of processing settings, e.g. for version lists
+ */
+export function describeSettings(settings: ProcessingSettings): string[] {
+  const beatDetectionLabels: Record<ProcessingSettings["beatDetection"], string> = {
+    auto: "Auto beat detection",
+    librosa: "Librosa beats",
+    madmom: "Madmom beats",
+  };
+  return [
+    `${settings.introLength}-bar intro`,
+    `${settings.outroLength}-bar outro`,
+    vocalModeLabels[getVocalMode(settings)],
+    beatDetectionLabels[settings.beatDetection],
+    settings.arrangement?.intro || settings.arrangement?.outro
+      ? "Custom arrangement"
+      : null,
+    describeOutputFormat(settings),
+  ].filter((label): label is string => label !== null);
+}
+
+/**
+ * Display title of a track: its title tag, or the filename without extension
+ */
+export function getTrackTitle(track: Pick<AudioTrack, "title" | "originalFilename">): string {
+  return track.title || track.originalFilename.replace(/\.[^/.]+$/, "");
+}
+
+/**
+ * Album, label and year from a track's tags, e.g. "Album • Label • 2019"
+ */
+export function describeRelease(
+  track: Pick<AudioTrack, "album" | "label" | "year">
+): string | null {
+  const parts = [track.album, track.label, track.year].filter(Boolean);
+  return parts.length > 0 ? parts.join(" • ") : null;
+}
+
+/**
+ * Display name of an extended version: its label if the user renamed it
+ */
+export function getVersionName(version: Pick<TrackVersion, "label" | "versionNumber">): string {
+  return version.label || `Version ${version.versionNumber}`;
+}
+
+/**
+ * Total length in bars of an arrangement timeline
+ */
+export function countBars(blocks: ArrangementBlock[]): number {
+  return blocks.reduce((total, block) => total + block.bars, 0);
+}
+
+/**
+ * Starting point for the arrangement editor: alternating drums and other in
+ * the intro like the default render, and an outro that strips down to drums
+ */
+export function createDefaultArrangement(
+  introLength: number,
+  outroLength: number
+): Required<Arrangement> {
+  const quarter = introLength / 4;
+  const half = outroLength / 2;
+  return {
+    intro: [
+      { stem: "drums", bars: quarter, gain: 0 },
+      { stem: "other", bars: quarter, gain: 0 },
+      { stem: "drums", bars: quarter, gain: 0 },
+      { stem: "other", bars: quarter, gain: 0 },
+    ],
+    outro: [
+      { stem: "other", bars: half, gain: 0 },
+      { stem: "drums", bars: half, gain: 0 },
+    ],
+  };
+}
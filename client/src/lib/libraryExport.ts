@@ -0,0 +1,41 @@
+/**
+ * Links to the DJ library export routes
+ *
+ * @format
+ */
+
+// Folder on this machine where the user saves downloaded versions. Kept per
+// browser rather than per account, since it is a path on this computer.
+const folderStorageKey = "exportFolder";
+
+// Library files the server can export, by file name
+export const libraryExportLabels: Record<string, string> = {
+	"rekordbox.xml": "Rekordbox",
+	"traktor.nml": "Traktor",
+	"serato.crate": "Serato",
+};
+
+export function getExportFolder(): string {
+	return localStorage.getItem(folderStorageKey) ?? "";
+}
+
+export function setExportFolder(folder: string): void {
+	if (folder.trim()) {
+		localStorage.setItem(folderStorageKey, folder.trim());
+	} else {
+		localStorage.removeItem(folderStorageKey);
+	}
+}
+
+/**
+ * URL of an export for all of the user's tracks, or for one track when
+ * `trackId` is given. File locations point into the saved export folder.
+ */
+export function libraryExportUrl(file: string, trackId?: number): string {
+	const base =
+		trackId === undefined
+			? `/api/tracks/export/${file}`
+			: `/api/tracks/${trackId}/export/${file}`;
+	const folder = getExportFolder();
+	return folder ? `${base}?folder=${encodeURIComponent(folder)}` : base;
+}
@@ -0,0 +1,50 @@
+/**
+ * User-facing descriptions of the failure codes reported by the processing pipeline
+ */
+
+import type { ProcessingErrorCode } from "@shared/schema";
+
+export interface ProcessingErrorInfo {
+  title: string;
+  suggestion: string;
+}
+
+const processingErrors: Record<ProcessingErrorCode, ProcessingErrorInfo> = {
+  BEAT_DETECTION_FAILED: {
+    title: "Beat detection failed",
+    suggestion:
+      "Try a different beat detection method in the extension settings, or use a track with a clearer rhythm.",
+  },
+  SEPARATION_FAILED: {
+    title: "Stem separation failed",
+    suggestion:
+      "This is usually temporary. Try again in a few minutes, or re-upload the track if it keeps happening.",
+  },
+  NOT_ENOUGH_BEATS: {
+    title: "Track is too short for these settings",
+    suggestion:
+      "Reduce the intro or outro length, or pick a longer track.",
+  },
+  UNSUPPORTED_FORMAT: {
+    title: "Unsupported audio file",
+    suggestion:
+      "Convert the track to MP3, WAV, FLAC or AIFF and upload it again.",
+  },
+  UNKNOWN: {
+    title: "Processing failed",
+    suggestion:
+      "Try again. If the problem persists, re-upload the track.",
+  },
+};
+
+/**
+ * Look up the title and suggested fix for a processing error code.
+ * Missing or unrecognised codes fall back to the generic message.
+ */
+export function describeProcessingError(
+  code: string | null | undefined
+): ProcessingErrorInfo {
+  return (
+    processingErrors[code as ProcessingErrorCode] || processingErrors.UNKNOWN
+  );
+}
@@ -4,105 +4,102 @@
  * @format
  */
 
-interface WaveformOptions {
-	container: HTMLElement;
+import type { WaveformPeaks } from "@shared/schema";
+
+// A coloured stretch of the waveform, as fractions of its duration
+export interface WaveformSection {
+	start: number;
+	end: number;
+	waveColor: string;
+	progressColor: string;
+}
+
+export interface DrawWaveformOptions {
+	progress: number; // 0..1, bars before it use the progress colour
 	waveColor?: string;
 	progressColor?: string;
-	height?: number;
+	sections?: WaveformSection[];
+	downbeats?: number[]; // 0..1, drawn as bar lines
+	phraseBars?: number; // every phraseBars-th bar line is emphasised
 	barWidth?: number;
 	barGap?: number;
-	responsive?: boolean;
 }
 
 /**
- * Generate a simple waveform visualization from audio data
- * Note: This is a simplified version. In a production app, use WaveSurfer.js
+ * Draw min/max peaks onto a canvas as mirrored bars, resampled to however
+ * many bars fit the canvas width. The canvas backing store is sized for the
+ * device pixel ratio so bars stay sharp on high-DPI screens.
  */
-export function generateSimpleWaveform(
-	audioData: Float32Array | number[],
-	options: WaveformOptions
+export function drawWaveform(
+	canvas: HTMLCanvasElement,
+	peaks: WaveformPeaks,
+	options: DrawWaveformOptions
 ): void {
 	const {
-		container,
-		waveColor = "#4F46E5",
-		progressColor: _progressColor = "#6366F1",
-		height = 100,
+		progress,
+		waveColor = "#4b5563",
+		progressColor = "#7c3aed",
+		sections = [],
+		downbeats = [],
+		phraseBars = 4,
 		barWidth = 3,
 		barGap = 1,
 	} = options;
 
-	// Clear container
-	container.innerHTML = "";
-	container.style.height = `${height}px`;
-	container.style.display = "flex";
-	container.style.alignItems = "center";
-	container.style.overflowX = "auto";
+	const ratio = window.devicePixelRatio || 1;
+	const width = canvas.clientWidth;
+	const height = canvas.clientHeight;
+	canvas.width = Math.floor(width * ratio);
+	canvas.height = Math.floor(height * ratio);
 
-	// Calculate how many bars fit in the container
-	const containerWidth = container.clientWidth;
-	const barsCount = Math.floor(containerWidth / (barWidth + barGap));
+	const ctx = canvas.getContext("2d");
+	if (!ctx) return;
+	ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+	ctx.clearRect(0, 0, width, height);
 
-	// Sample the audio data to fit the number of bars
-	const dataStep = Math.floor(audioData.length / barsCount);
+	const points = peaks.max.length;
+	if (points === 0) return;
+
+	const barsCount = Math.max(1, Math.floor(width / (barWidth + barGap)));
+	const middle = height / 2;
 
-	// Create bars
 	for (let i = 0; i < barsCount; i++) {
-		const index = Math.min(i * dataStep, audioData.length - 1);
-		const value = Math.abs(audioData[index]);
-		const barHeight = Math.max(1, Math.floor(value * height));
+		// Every peak point that falls under this bar
+		const from = Math.floor((i / barsCount) * points);
+		const to = Math.max(from + 1, Math.floor(((i + 1) / barsCount) * points));
+		let min = 0;
+		let max = 0;
+		for (let p = from; p < to && p < points; p++) {
+			min = Math.min(min, peaks.min[p]);
+			max = Math.max(max, peaks.max[p]);
+		}
 
-		const bar = document.createElement("div");
-		bar.style.width = `${barWidth}px`;
-		bar.style.marginRight = `${barGap}px`;
-		bar.style.height = `${barHeight}px`;
-		bar.style.backgroundColor = waveColor;
-		bar.style.borderRadius = "1px";
+		const position = (i + 0.5) / barsCount;
+		const section = sections.find(
+			(s) => position >= s.start && position < s.end
+		);
+		const played = position <= progress;
+		ctx.fillStyle = section
+			? played
+				? section.progressColor
+				: section.waveColor
+			: played
+			? progressColor
+			: waveColor;
 
-		container.appendChild(bar);
+		const top = middle - Math.max(max, 0.01) * middle;
+		const bottom = middle - Math.min(min, -0.01) * middle;
+		ctx.fillRect(i * (barWidth + barGap), top, barWidth, bottom - top);
 	}
-}
-
-/**
- * Generate a random waveform for display purposes
- * Note: This should only be used for UI mockups when no real data is available
- */
-export function generateRandomWaveform(options: WaveformOptions): void {
-	const {
-		container,
-		height: _height = 100,
-		barWidth = 3,
-		barGap = 1,
-	} = options;
-
-	// Clear container
-	container.innerHTML = "";
-
-	// Calculate how many bars fit in the container
-	const containerWidth = container.clientWidth;
-	const barsCount = Math.floor(containerWidth / (barWidth + barGap));
-
-	// Create random data
-	const randomData = Array(barsCount)
-		.fill(0)
-		.map(() => Math.random());
-
-	// Create waveform
-	generateSimpleWaveform(randomData, options);
-}
 
-/**
- * Update progress on a simple waveform
- */
-export function updateWaveformProgress(
-	container: HTMLElement,
-	progress: number,
-	progressColor = "#6366F1"
-): void {
-	const bars = container.children;
-	const progressIndex = Math.floor(bars.length * progress);
-
-	for (let i = 0; i < bars.length; i++) {
-		const bar = bars[i] as HTMLElement;
-		bar.style.backgroundColor = i <= progressIndex ? progressColor : "#4F46E5";
-	}
+	// Only phrase lines are drawn when single bars would sit too close together
+	const barStep = width / downbeats.length < 6 ? phraseBars : 1;
+	downbeats.forEach((position, index) => {
+		if (index % barStep !== 0) return;
+		ctx.fillStyle =
+			index % phraseBars === 0
+				? "rgba(255, 255, 255, 0.45)"
+				: "rgba(255, 255, 255, 0.15)";
+		ctx.fillRect(Math.round(position * width), 0, 1, height);
+	});
 }
@@ -0,0 +1,89 @@
+/** @format */
+
+import React, { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+
+const Auth: React.FC = () => {
+	const { loginMutation, registerMutation } = useAuth();
+	const [mode, setMode] = useState<"login" | "register">("login");
+	const [username, setUsername] = useState("");
+	const [password, setPassword] = useState("");
+
+	const activeMutation = mode === "login" ? loginMutation : registerMutation;
+
+	const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+		e.preventDefault();
+		activeMutation.mutate({ username, password });
+	};
+
+	return (
+		<div className='container mx-auto px-4 py-12 flex justify-center'>
+			<div className='bg-white rounded-xl shadow-md p-6 w-full max-w-md'>
+				<h2 className='text-xl font-semibold mb-4'>
+					{mode === "login" ? "Sign In" : "Create Account"}
+				</h2>
+
+				<form className='space-y-4' onSubmit={handleSubmit}>
+					<div>
+						<label
+							htmlFor='auth-username'
+							className='block text-sm font-medium text-gray-700 mb-1'>
+							Username
+						</label>
+						<input
+							id='auth-username'
+							type='text'
+							autoComplete='username'
+							className='w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary'
+							value={username}
+							onChange={(e) => setUsername(e.target.value)}
+							minLength={3}
+							required
+						/>
+					</div>
+					<div>
+						<label
+							htmlFor='auth-password'
+							className='block text-sm font-medium text-gray-700 mb-1'>
+							Password
+						</label>
+						<input
+							id='auth-password'
+							type='password'
+							autoComplete={
+								mode === "login" ? "current-password" : "new-password"
+							}
+							className='w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary'
+							value={password}
+							onChange={(e) => setPassword(e.target.value)}
+							minLength={8}
+							required
+						/>
+					</div>
+
+					<button
+						type='submit'
+						className='w-full bg-gradient-to-r from-primary to-purple-600 text-white py-2 px-4 rounded-md font-medium shadow hover:shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:opacity-50'
+						disabled={activeMutation.isPending}>
+						{activeMutation.isPending
+							? "Please wait..."
+							: mode === "login"
+							? "Sign In"
+							: "Create Account"}
+					</button>
+				</form>
+
+				<p className='mt-4 text-sm text-gray-500 text-center'>
+					{mode === "login" ? "No account yet?" : "Already have an account?"}{" "}
+					<button
+						className='text-primary font-medium'
+						onClick={() => setMode(mode === "login" ? "register" : "login")}>
+						{mode === "login" ? "Create one" : "Sign in"}
+					</button>
+				</p>
+			</div>
+		</div>
+	);
+};
+
+export default Auth;
@@ -7,7 +7,9 @@ import UploadSection from "@/components/UploadSection";
 import SettingsPanel from "@/components/SettingsPanel";
 import ProcessingInfo from "@/components/ProcessingInfo";
 import TrackPreview from "@/components/TrackPreview";
-import { AudioTrack } from "@shared/schema";
+import TrackLibrary from "@/components/TrackLibrary";
+import { useTrackEvents } from "@/hooks/use-track-events";
+import { TrackStatusResponse, TrackWithVersions } from "@shared/schema";
 
 const Home: React.FC = () => {
 	const { toast } = useToast();
@@ -37,64 +39,58 @@ const Home: React.FC = () => {
 		localStorage.setItem("isProcessed", isProcessed.toString());
 	}, [isProcessed]);
 
-	// Check processing status on initial load
+	// Status comes from the status route and is refreshed by pushed events
+	useTrackEvents();
+	const { data: trackStatus, isFetching: isFetchingStatus } =
+		useQuery<TrackStatusResponse>({
+			queryKey: currentTrackId
+				? [`/api/tracks/${currentTrackId}/status`]
+				: ["no-track-status"],
+			enabled: Boolean(currentTrackId),
+			refetchOnMount: "always",
+		});
+
 	useEffect(() => {
-		const checkInitialStatus = async () => {
-			if (currentTrackId && isProcessing) {
-				try {
-					const response = await fetch(`/api/tracks/${currentTrackId}/status`);
-					const data = await response.json();
-
-					if (data.status === "completed") {
-						setIsProcessing(false);
-						setIsProcessed(true);
-						localStorage.setItem("isProcessing", "false");
-						localStorage.setItem("isProcessed", "true");
-					} else if (
-						data.status === "processing" ||
-						data.status === "regenerate"
-					) {
-						setIsProcessing(true);
-						localStorage.setItem("isProcessing", "true");
-					}
-				} catch (error) {
-					console.error("Error checking initial status:", error);
-				}
-			}
-		};
-
-		checkInitialStatus();
-	}, [currentTrackId]);
+		if (!trackStatus || isFetchingStatus || !isProcessing) return;
+
+		if (trackStatus.status === "completed") {
+			setIsProcessing(false);
+			setIsProcessed(true);
+		}
+	}, [trackStatus, isFetchingStatus]);
 
 	// Persist processing state
 	useEffect(() => {
 		localStorage.setItem("isProcessing", isProcessing.toString());
 	}, [isProcessing]);
 
-	const { data: _tracks } = useQuery<AudioTrack[]>({
+	const { data: tracks } = useQuery<TrackWithVersions[]>({
 		queryKey: ["/api/tracks"],
 		staleTime: Infinity,
-		cacheTime: Infinity,
-		onSuccess: (tracks) => {
-			// Set the most recent track as current if none selected
-			if (!currentTrackId && tracks?.length > 0) {
-				setCurrentTrackId(tracks[0].id);
-				setIsProcessed(tracks[0].status === "completed");
-			}
-		},
 	});
 
-	const { data: track } = useQuery<AudioTrack>({
+	// Set the most recent track as current if none selected
+	useEffect(() => {
+		if (!currentTrackId && tracks && tracks.length > 0) {
+			setCurrentTrackId(tracks[0].id);
+			setIsProcessed(tracks[0].status === "completed");
+		}
+	}, [tracks]);
+
+	const { data: track } = useQuery<TrackWithVersions>({
 		queryKey: currentTrackId ? [`/api/tracks/${currentTrackId}`] : ["no-track"],
 		enabled: Boolean(currentTrackId),
-		refetchInterval: isProcessing ? 2000 : false,
 	});
 
 	// Check if the track is already processed when loading
 	useEffect(() => {
-		if (track && track.status === "completed" && track.extendedPath) {
+		const hasVersions = (track?.versions.length ?? 0) > 0;
+		if (track && track.status === "completed" && hasVersions) {
 			setIsProcessed(true);
 			setIsProcessing(false);
+		} else if (track && track.status === "uploaded" && !hasVersions) {
+			// Every version was deleted, so allow generating again
+			setIsProcessed(false);
 		}
 	}, [track]);
 
@@ -105,6 +101,10 @@ const Home: React.FC = () => {
 
 	const handleProcessingStart = () => {
 		setIsProcessing(true);
+		// Drop the previous run's outcome so it is not mistaken for this one
+		queryClient.invalidateQueries({
+			queryKey: [`/api/tracks/${currentTrackId}/status`],
+		});
 	};
 
 	const handleProcessingComplete = () => {
@@ -120,6 +120,22 @@ const Home: React.FC = () => {
 		setIsProcessing(false);
 	};
 
+	const handleTrackSelect = (selected: TrackWithVersions) => {
+		setCurrentTrackId(selected.id);
+		setIsProcessing(
+			selected.status === "processing" || selected.status === "regenerate"
+		);
+		setIsProcessed(
+			selected.status === "completed" && selected.versions.length > 0
+		);
+	};
+
+	const handleTrackDeleted = () => {
+		setCurrentTrackId(null);
+		setIsProcessed(false);
+		setIsProcessing(false);
+	};
+
 	const _handlePreview = () => {
 		// Switch to the extended tab in TrackPreview
 		// This is handled through props
@@ -170,6 +186,12 @@ const Home: React.FC = () => {
 						</button>
 					)}
 
+					<TrackLibrary
+						tracks={tracks ?? []}
+						currentTrackId={currentTrackId}
+						onSelect={handleTrackSelect}
+					/>
+
 					{isProcessing && currentTrackId ? (
 						<ProcessingInfo
 							trackId={currentTrackId}
@@ -187,7 +209,11 @@ const Home: React.FC = () => {
 
 				{/* Right column: Results & Preview */}
 				<div className='lg:col-span-8'>
-					<TrackPreview trackId={currentTrackId} isProcessed={isProcessed} />
+					<TrackPreview
+						trackId={currentTrackId}
+						isProcessed={isProcessed}
+						onTrackDeleted={handleTrackDeleted}
+					/>
 				</div>
 			</div>
 		</div>
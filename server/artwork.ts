@@ -0,0 +1,21 @@
+/** @format */
+
+import { extractArtwork } from "./ffmpeg";
+
+// Thumbnails are cached as a JPEG next to the upload they came from
+export function artworkPathFor(audioPath: string): string {
+	return `${audioPath}.artwork.jpg`;
+}
+
+/**
+ * Cache a thumbnail of the upload's embedded cover art. Resolves false when
+ * the file has none, or when it can't be read, so uploads never fail on it.
+ */
+export async function generateArtwork(audioPath: string): Promise<boolean> {
+	try {
+		return await extractArtwork(audioPath, artworkPathFor(audioPath));
+	} catch (error) {
+		console.error("Error extracting artwork:", error);
+		return false;
+	}
+}
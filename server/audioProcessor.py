@@ -10,11 +10,15 @@ Features:
 - Converts beat frames to actual time values.
 - Separates audio into stems (vocals, drums, bass, other) using Spleeter (4 stems model).
 - Identifies and selects the loudest segments from instrumental stems (bass, drums, other).
-- Creates an intro by shuffling and stitching together the loudest instrumental segments.
-- Optionally appends an outro using a similar shuffle method.
+- Creates an intro by stitching together the loudest stem segments, either in an
+  explicit arrangement or shuffled with a seed so a render can be reproduced.
+- Appends an instrumental outro looped from the track's last phrase.
+- Optionally builds the intro and/or outro from a user arrangement timeline of
+  single-stem blocks, each with its own length in bars and gain.
 - Combines intro, original track, and optional outro into a single final remix.
 - Saves the final output as 'output.mp3'.
-- Also saves metadata (e.g., the shuffle order) in 'shuffle_info.json'.
+- Reports the applied intro arrangement, the section markers and the beat
+  grids of the source and of the render on stdout.
 """
 
 import sys
@@ -26,6 +30,10 @@ import tempfile
 import subprocess
 import logging
 import random
+import signal
+from functools import partial
+
+from beatgrid import audio_segment_to_array, build_beat_grid, detect_beat_grid
 
 logging.basicConfig(level=logging.INFO,
                     format='%(asctime)s - %(name)s - %(levelname)s - %(message)s')
@@ -58,6 +66,45 @@ except ImportError:
     from spleeter.separator import Separator
 
 
+SUPPORTED_INPUT_FORMATS = (".mp3", ".wav", ".flac", ".aiff", ".aif")
+
+# Where vocals may appear in the render:
+# - full: intro, main body and outro
+# - mainOnly: main body only, so the intro and outro are instrumental
+# - instrumental: nowhere, the main body is rebuilt from the other stems
+VOCAL_MODES = ("full", "mainOnly", "instrumental")
+
+
+def parse_vocal_mode(value):
+    """Accept a vocal mode name or the legacy preserve_vocals true/false flag."""
+    value = str(value)
+    if value in VOCAL_MODES:
+        return value
+    return "full" if value.lower() == "true" else "instrumental"
+
+
+class ProcessingError(Exception):
+    """A processing failure with a stable code the Node worker can act on.
+
+    Codes: BEAT_DETECTION_FAILED, SEPARATION_FAILED, NOT_ENOUGH_BEATS,
+    UNSUPPORTED_FORMAT, UNKNOWN.
+    """
+
+    def __init__(self, code, message):
+        super().__init__(message)
+        self.code = code
+        self.message = message
+
+
+def report_progress(stage, progress):
+    """Emit a machine-readable progress line for the Node worker.
+
+    Lines look like: PROGRESS {"stage": "separating", "progress": 40}
+    """
+    print("PROGRESS " + json.dumps({"stage": stage, "progress": int(progress)}),
+          flush=True)
+
+
 def detect_tempo_and_beats(audio_path, method="auto"):
     logger.info("Detecting tempo and beats using %s method", method)
 
@@ -104,8 +151,15 @@ def separate_audio_components(audio_path, output_dir):
     logger.info("Starting audio separation with Spleeter")
 
     try:
-        separator = Separator('spleeter:4stems')
         main_song = AudioSegment.from_file(audio_path)
+    except Exception as e:
+        logger.error("Could not decode %s: %s", audio_path, str(e))
+        raise ProcessingError(
+            "UNSUPPORTED_FORMAT",
+            "The audio file could not be decoded.") from e
+
+    try:
+        separator = Separator('spleeter:4stems')
         separator.separate_to_file(audio_path, output_dir)
 
         base_name = os.path.splitext(os.path.basename(audio_path))[0]
@@ -128,17 +182,22 @@ def separate_audio_components(audio_path, output_dir):
 
     except Exception as e:
         logger.error("Error during audio separation: %s", str(e))
-        return None
+        raise ProcessingError(
+            "SEPARATION_FAILED",
+            "Splitting the track into stems failed.") from e
 
 
-def pick_loudest_bars(stem, beats_ms, bars=4, beats_per_bar=4):
+def pick_loudest_bars(stem, beats_ms, bars=4, beats_per_bar=4, step=1):
+    """Slice the loudest `bars` bars of a stem. Candidate windows start every
+    `step` beats; a step of beats_per_bar keeps them on bar lines when
+    beats_ms starts on a downbeat."""
     total_beats = len(beats_ms)
     window = beats_per_bar * bars
     max_rms = -1
     pick_start = 0
     if total_beats < window + 1:
         return stem
-    for i in range(total_beats - window):
+    for i in range(0, total_beats - window, step):
         start_ms = int(beats_ms[i])
         end_ms = int(beats_ms[i + window])
         segment = stem[start_ms:end_ms]
@@ -151,26 +210,142 @@ def pick_loudest_bars(stem, beats_ms, bars=4, beats_per_bar=4):
     return stem[start_ms:end_ms]
 
 
-def create_extended_mix(components, output_path, intro_bars, outro_bars, _preserve_vocals, _tempo, beat_times, main_song):
+def pick_last_bars(stem, beats_ms, bars=4, beats_per_bar=4):
+    """Slice the final `bars` complete bars of a stem, ending on the last detected beat."""
+    window = beats_per_bar * bars
+    if len(beats_ms) < window + 1:
+        return stem
+    start_ms = int(beats_ms[-(window + 1)])
+    end_ms = int(beats_ms[-1])
+    return stem[start_ms:end_ms]
+
+
+def build_outro(drums, bass, other, beat_times_ms, outro_bars, phrase_bars=4, vocals=None):
+    """Build an outro of `outro_bars` bars from the track's last phrases.
+
+    The drums, bass and other stems of the final phrase are layered, then the
+    phrase is repeated until the requested length is reached so the outro keeps
+    the groove of the ending rather than of the loudest section. The vocal stem
+    is only layered in when `vocals` is given.
+    """
+    phrase_bars = min(phrase_bars, outro_bars)
+    phrase = pick_last_bars(drums, beat_times_ms, bars=phrase_bars).overlay(
+        pick_last_bars(bass, beat_times_ms, bars=phrase_bars)).overlay(
+        pick_last_bars(other, beat_times_ms, bars=phrase_bars))
+    if vocals is not None:
+        phrase = phrase.overlay(
+            pick_last_bars(vocals, beat_times_ms, bars=phrase_bars))
+    repeats = -(-outro_bars // phrase_bars)
+    outro = phrase * repeats
+
+    # Trim to exactly outro_bars bars of the phrase's own tempo
+    bar_ms = len(phrase) / phrase_bars
+    outro = outro[:int(bar_ms * outro_bars)]
+    return outro.fade_out(min(len(outro), int(bar_ms * 2)))
+
+
+def build_arranged_section(stems, beat_times_ms, blocks, pick_bars):
+    """Concatenate arrangement blocks of {"stem", "bars", "gain"} in order.
+
+    `pick_bars` chooses where each block is cut from its stem, e.g.
+    pick_loudest_bars for an intro or pick_last_bars for an outro.
+    """
+    unknown = [block['stem'] for block in blocks if block['stem'] not in stems]
+    if unknown:
+        raise ProcessingError(
+            "UNKNOWN",
+            f"Arrangement uses unavailable stems: {', '.join(unknown)}.")
+    section = AudioSegment.empty()
+    for block in blocks:
+        segment = pick_bars(stems[block['stem']], beat_times_ms,
+                            bars=int(block['bars']))
+        section += segment.apply_gain(float(block.get('gain', 0)))
+    return section
+
+
+def split_bars(total, count):
+    """Split `total` bars over `count` blocks as evenly as whole bars allow,
+    giving any leftover bars to the first blocks."""
+    base, extra = divmod(total, count)
+    return [base + 1 if i < extra else base for i in range(count)]
+
+
+def build_instrumental(components):
+    """Rebuild the full track from every stem except vocals."""
+    drums = AudioSegment.from_file(components['drums'])
+    bass = AudioSegment.from_file(components['bass'])
+    other = AudioSegment.from_file(components['other'])
+    return drums.overlay(bass).overlay(other)
+
+
+def export_mix(mix, output_path, output=None):
+    """Write `mix` to output_path in the requested format and quality.
+
+    `output` may give a format (wav, aiff, flac, mp3), an mp3Bitrate in kbps
+    (320 by default), a bitDepth of 16 or 24 and a sampleRate; anything
+    missing keeps the mix as it is, in the format of the path's extension.
+    """
+    output = output or {}
+    extension = os.path.splitext(output_path)[1][1:].lower()
+    fmt = output.get("format") or ("aiff" if extension == "aif" else extension)
+
+    if output.get("sampleRate"):
+        mix = mix.set_frame_rate(output["sampleRate"])
+    if output.get("bitDepth") and fmt != "mp3":
+        mix = mix.set_sample_width(output["bitDepth"] // 8)
+
+    export_args = {}
+    if fmt == "mp3":
+        export_args["bitrate"] = f"{output.get('mp3Bitrate') or 320}k"
+    elif fmt == "aiff":
+        # ffmpeg's AIFF muxer defaults to 16-bit, whatever the input
+        export_args["codec"] = f"pcm_s{mix.sample_width * 8}be"
+
+    logger.info("Exporting %s (%s Hz, %s-bit) to %s", fmt,
+                mix.frame_rate, mix.sample_width * 8, output_path)
+    mix.export(output_path, format=fmt, **export_args)
+
+
+def create_extended_mix(components, output_path, intro_bars, outro_bars, vocal_mode, _tempo, beat_times, main_song, seed=None, intro_arrangement=None, arrangement=None, bar_aligned=False, output=None):
+    """Render intro + main song + outro into output_path.
+
+    `intro_bars` and `outro_bars` are the total length of each section,
+    however many blocks it is split into. Without an `intro_arrangement`
+    the default stem blocks are shuffled with `seed`; with one, the blocks
+    are played in exactly that order. The intro and outro timelines of
+    `arrangement` replace the generated sections they cover. With
+    `bar_aligned`, beat_times start and end on a downbeat and intro blocks
+    are only cut from bar lines. `output` picks the file format (see
+    export_mix). Returns the section markers and the intro stems that were
+    applied.
+    """
     logger.info(
-        "Creating extended mix with %s bars intro and %s bars outro", intro_bars, outro_bars)
+        "Creating extended mix with %s bars intro and %s bars outro (vocals: %s)",
+        intro_bars, outro_bars, vocal_mode)
 
     try:
         beats_per_bar = 4
         intro_beats = intro_bars * beats_per_bar
         outro_beats = outro_bars * beats_per_bar
 
-        if len(beat_times) < (intro_beats + outro_beats + 8):
+        required_beats = intro_beats + outro_beats + 8
+        if len(beat_times) < required_beats:
             logger.warning(
                 "Not enough beats detected (%s) for requested extension", len(beat_times))
-            return False
-
-        version = 1
-        if "_v" in output_path:
-            try:
-                version = int(output_path.split("_v")[-1].split(".")[0])
-            except (ValueError, IndexError):
-                pass
+            raise ProcessingError(
+                "NOT_ENOUGH_BEATS",
+                f"Only {len(beat_times)} beats were detected, but "
+                f"{intro_bars} intro and {outro_bars} outro bars need at least {required_beats}.")
+
+        if seed is None:
+            # No seed given: derive one from the _vN output suffix as before
+            version = 1
+            if "_v" in output_path:
+                try:
+                    version = int(output_path.split("_v")[-1].split(".")[0])
+                except (ValueError, IndexError):
+                    pass
+            seed = version * 42
 
         drums = AudioSegment.from_file(components['drums'])
         bass = AudioSegment.from_file(components['bass']) + 12
@@ -179,126 +354,196 @@ def create_extended_mix(components, output_path, intro_bars, outro_bars, _preser
 
         beat_times_ms = [t * 1000 for t in beat_times]
 
-        full_intro_drums = pick_loudest_bars(
-            drums, beat_times_ms, bars=intro_bars)
-        _unused_full_intro_bass = pick_loudest_bars(
-            bass, beat_times_ms, bars=intro_bars)
-        full_intro_other = pick_loudest_bars(
-            other, beat_times_ms, bars=intro_bars)
-        intro_vocals = pick_loudest_bars(
-            vocals, beat_times_ms, bars=intro_bars)
-
-        random.seed(version * 42)
-
-        intro_labels = ['drums', 'other', 'drums', 'vocals']
-        intro_segments = [full_intro_drums,
-                          full_intro_other, full_intro_drums, intro_vocals]
-        intro_zipped = list(zip(intro_labels, intro_segments))
-        random.shuffle(intro_zipped)
-        intro_components = [seg for (_, seg) in intro_zipped]
-        shuffled_intro_order = [label for (label, _) in intro_zipped]
-        random.seed()
-
-        full_intro = sum(intro_components).fade_in(2000)
-
-        extended_mix = full_intro.append(main_song, crossfade=500)
-
-        extended_mix.export(
-            output_path, format=os.path.splitext(output_path)[1][1:])
+        stems = {'drums': drums, 'bass': bass, 'other': other}
+        if vocal_mode == "full":
+            stems['vocals'] = vocals
+
+        pick_intro_bars = partial(
+            pick_loudest_bars, step=beats_per_bar if bar_aligned else 1)
+
+        arrangement = arrangement or {}
+        if arrangement.get('intro'):
+            intro_order = [block['stem'] for block in arrangement['intro']]
+            full_intro = build_arranged_section(
+                stems, beat_times_ms, arrangement['intro'], pick_intro_bars)
+        else:
+            if intro_arrangement:
+                intro_order = list(intro_arrangement)
+            elif vocal_mode == "full":
+                intro_order = ['drums', 'other', 'drums', 'vocals']
+            else:
+                intro_order = ['drums', 'other', 'drums', 'other']
+            if not intro_arrangement:
+                # A private generator keeps the shuffle reproducible from the seed
+                random.Random(seed).shuffle(intro_order)
+            full_intro = build_arranged_section(
+                stems, beat_times_ms,
+                [{'stem': label, 'bars': bars} for label, bars in
+                 zip(intro_order, split_bars(intro_bars, len(intro_order)))],
+                pick_intro_bars)
+        full_intro = full_intro.fade_in(2000)
+
+        if arrangement.get('outro'):
+            outro = build_arranged_section(
+                stems, beat_times_ms, arrangement['outro'], pick_last_bars)
+            # Same tail as the generated outro: fade over the last two bars
+            bar_ms = len(outro) / outro_bars
+            outro = outro.fade_out(min(len(outro), int(bar_ms * 2)))
+        else:
+            outro = build_outro(drums, bass, other, beat_times_ms, outro_bars,
+                                vocals=vocals if vocal_mode == "full" else None)
+        if vocal_mode == "instrumental":
+            main_song = build_instrumental(components)
+
+        crossfade_ms = 500
+        extended_mix = full_intro.append(main_song, crossfade=crossfade_ms)
+        # Each boundary sits where its crossfade begins
+        intro_end_ms = len(full_intro) - crossfade_ms
+        outro_start_ms = len(extended_mix) - crossfade_ms
+        extended_mix = extended_mix.append(outro, crossfade=crossfade_ms)
+
+        report_progress("exporting", 85)
+        export_mix(extended_mix, output_path, output)
         logger.info(
             "Extended mix created successfully and saved to %s", output_path)
 
-        output_base = os.path.splitext(os.path.basename(output_path))[0]
-        save_dir = r"C:\Users\Dhanush\Desktop\softwareLabs"
-        os.makedirs(save_dir, exist_ok=True)
-        shuffle_json_path = os.path.join(
-            save_dir, f"{output_base}_shuffle_order.json")
-        shuffle_info = {
-            "intro_shuffle_order": shuffled_intro_order
+        logger.info("Intro arrangement: %s (seed %s)", intro_order, seed)
+        markers = {
+            "intro_end": round(intro_end_ms / 1000, 3),
+            "outro_start": round(outro_start_ms / 1000, 3),
+            "intro_arrangement": intro_order,
         }
 
-        with open(shuffle_json_path, 'w') as f:
-            json.dump(shuffle_info, f, indent=2)
+        # The grid is re-detected on the render rather than shifted from the
+        # source, since the intro and outro are cut from different bars
+        report_progress("exporting", 92)
+        try:
+            markers["source_beat_grid"] = build_beat_grid(
+                beat_times, *audio_segment_to_array(main_song))
+            markers["beat_grid"] = detect_beat_grid(
+                *audio_segment_to_array(extended_mix))
+        except Exception as e:
+            logger.error("Beat grid detection failed: %s", str(e))
 
-        logger.info("Shuffle order saved to %s", shuffle_json_path)
-        return True
+        return markers
 
+    except ProcessingError:
+        raise
     except Exception as e:
         logger.error("Error in create_extended_mix: %s", str(e))
-        return False
+        raise ProcessingError(
+            "UNKNOWN", f"Creating the extended mix failed: {e}") from e
 
 
-def process_audio(input_path, output_path, intro_bars=16, outro_bars=16, preserve_vocals=True, beat_detection="auto"):
+def process_audio(input_path, output_path, intro_bars=16, outro_bars=16, vocal_mode="full", beat_detection="auto", options=None):
 
     logger.info("Starting audio processing: %s", input_path)
     logger.info(
-        "Parameters: intro_bars=%s, outro_bars=%s, preserve_vocals=%s, beat_detection=%s", 
-        intro_bars, outro_bars, preserve_vocals, beat_detection)
+        "Parameters: intro_bars=%s, outro_bars=%s, vocal_mode=%s, beat_detection=%s", 
+        intro_bars, outro_bars, vocal_mode, beat_detection)
 
-    try:
+    intro_bars = int(intro_bars)
+    outro_bars = int(outro_bars)
+    vocal_mode = parse_vocal_mode(vocal_mode)
+    options = options or {}
 
-        intro_bars = int(intro_bars)
-        outro_bars = int(outro_bars)
-        preserve_vocals = str(preserve_vocals).lower() == 'true'
+    if os.path.splitext(input_path)[1].lower() not in SUPPORTED_INPUT_FORMATS:
+        raise ProcessingError(
+            "UNSUPPORTED_FORMAT",
+            f"Unsupported file type: {os.path.splitext(input_path)[1] or 'none'}.")
 
+    try:
         with tempfile.TemporaryDirectory() as temp_dir:
 
-            tempo, beat_times = detect_tempo_and_beats(
-                input_path, method=beat_detection)
+            report_progress("detecting_beats", 5)
+            beat_grid = options.get("beatGrid")
+            if beat_grid:
+                # Corrected in the beat grid editor: trust it instead of
+                # detecting, and trim it to whole bars from bar one
+                tempo = beat_grid["bpm"]
+                beat_times = [t for t in beat_grid["beats"]
+                              if t >= beat_grid["firstDownbeat"]]
+                beat_times = beat_times[:len(beat_times) - (len(beat_times) - 1) % 4]
+                logger.info("Using corrected beat grid at %s BPM", tempo)
+            else:
+                tempo, beat_times = detect_tempo_and_beats(
+                    input_path, method=beat_detection)
             if tempo is None or beat_times is None or len(beat_times) == 0:
                 logger.error("Beat detection failed, cannot proceed")
-                return False
+                raise ProcessingError(
+                    "BEAT_DETECTION_FAILED",
+                    f"No tempo or beats could be detected using the {beat_detection} method.")
 
+            report_progress("separating", 20)
             components, main_song = separate_audio_components(
                 input_path, temp_dir)
-            if components is None:
-                logger.error("Audio separation failed, cannot proceed")
-                return False
 
-            success = create_extended_mix(
+            report_progress("extending", 70)
+            markers = create_extended_mix(
                 components,
                 output_path,
                 intro_bars,
                 outro_bars,
-                preserve_vocals,
+                vocal_mode,
                 tempo,
                 beat_times,
-                main_song
+                main_song,
+                seed=options.get("seed"),
+                intro_arrangement=options.get("introArrangement"),
+                arrangement=options.get("arrangement"),
+                bar_aligned=bool(beat_grid),
+                output=options.get("output")
             )
 
-            return success
+            return markers
 
+    except ProcessingError:
+        raise
     except Exception as e:
         logger.error("Error in audio processing: %s", str(e))
-        return False
+        raise ProcessingError("UNKNOWN", str(e)) from e
+
+
+def handle_termination(signum, _frame):
+    """Exit on SIGTERM so the temporary stem directory is cleaned up."""
+    logger.info("Received signal %s, cancelling processing", signum)
+    sys.exit(1)
 
 
 def main():
     """Main function to handle command line execution."""
+    signal.signal(signal.SIGTERM, handle_termination)
+
     if len(sys.argv) < 3:
         print(
-            "Usage: python audioProcessor.py <input_path> <output_path> [intro_bars] [outro_bars] [preserve_vocals] [beat_detection]")
+            "Usage: python audioProcessor.py <input_path> <output_path> [intro_bars] [outro_bars] [vocal_mode] [beat_detection] [options_json]")
         sys.exit(1)
 
     audio_input_path = sys.argv[1]
     audio_output_path = sys.argv[2]
     audio_intro_bars = int(sys.argv[3]) if len(sys.argv) > 3 else 16
     audio_outro_bars = int(sys.argv[4]) if len(sys.argv) > 4 else 16
-    audio_preserve_vocals = sys.argv[5].lower(
-    ) == 'true' if len(sys.argv) > 5 else True
+    audio_vocal_mode = parse_vocal_mode(
+        sys.argv[5]) if len(sys.argv) > 5 else "full"
     audio_beat_detection = sys.argv[6] if len(sys.argv) > 6 else "auto"
+    # Extra render options as a JSON object, e.g.
+    # {"seed": 1234, "introArrangement": ["drums", "bass", "other", "drums"],
+    #  "arrangement": {"intro": [{"stem": "drums", "bars": 8, "gain": 0}, ...]},
+    #  "output": {"format": "flac", "bitDepth": 24, "sampleRate": 48000}}
+    audio_options = json.loads(sys.argv[7]) if len(sys.argv) > 7 else {}
 
-    processing_success = process_audio(audio_input_path, audio_output_path, audio_intro_bars,
-                            audio_outro_bars, audio_preserve_vocals, audio_beat_detection)
-
-    if processing_success:
-        print(json.dumps({"status": "success", "output_path": audio_output_path}))
-        sys.exit(0)
-    else:
+    try:
+        markers = process_audio(audio_input_path, audio_output_path, audio_intro_bars,
+                      audio_outro_bars, audio_vocal_mode, audio_beat_detection, audio_options)
+    except ProcessingError as e:
         print(json.dumps(
-            {"status": "error", "message": "Failed to process audio"}))
+            {"status": "error", "code": e.code, "message": e.message}))
         sys.exit(1)
 
+    print(json.dumps({"status": "success",
+          "output_path": audio_output_path, **markers}))
+    sys.exit(0)
+
 
 if __name__ == "__main__":
     main()
@@ -0,0 +1,281 @@
+/** @format */
+
+import type {
+	Express,
+	Request,
+	Response,
+	NextFunction,
+	RequestHandler,
+} from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { getVersionLimit } from "./config";
+import {
+	insertUserSchema,
+	updateUserSchema,
+	type User as SelectUser,
+	type AudioTrack,
+} from "@shared/schema";
+
+declare global {
+	namespace Express {
+		interface User extends SelectUser {}
+		interface Request {
+			// Set by requireTrackOwner for track-scoped routes
+			track?: AudioTrack;
+		}
+	}
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Passwords are stored as "<hex hash>.<hex salt>"
+export async function hashPassword(password: string): Promise<string> {
+	const salt = randomBytes(16).toString("hex");
+	const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+	return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(
+	supplied: string,
+	stored: string
+): Promise<boolean> {
+	const [hashed, salt] = stored.split(".");
+	if (!hashed || !salt) {
+		return false;
+	}
+	const hashedBuf = Buffer.from(hashed, "hex");
+	const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+	return (
+		hashedBuf.length === suppliedBuf.length &&
+		timingSafeEqual(hashedBuf, suppliedBuf)
+	);
+}
+
+// Never send the password hash back to the client. versionLimit is the
+// resolved per-track version quota so the client doesn't hard-code it.
+function toPublicUser(user: SelectUser) {
+	const { password: _password, ...publicUser } = user;
+	return { ...publicUser, versionLimit: getVersionLimit(user) };
+}
+
+// Guard for API routes that need a signed-in user
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+	if (!req.isAuthenticated()) {
+		return res.status(401).json({ message: "Authentication required" });
+	}
+	next();
+}
+
+/**
+ * Authorization layer for every route with a track `:id` param.
+ * Tracks owned by another user answer 404 rather than 403 so that
+ * sequential ids reveal nothing about other users' libraries.
+ */
+export async function requireTrackOwner(
+	req: Request,
+	res: Response,
+	next: NextFunction
+) {
+	if (!req.isAuthenticated()) {
+		return res.status(401).json({ message: "Authentication required" });
+	}
+
+	const id = parseInt(req.params.id, 10);
+	if (isNaN(id)) {
+		return res.status(400).json({ message: "Invalid track ID" });
+	}
+
+	try {
+		const track = await storage.getAudioTrack(id);
+		if (!track || track.userId !== req.user.id) {
+			return res.status(404).json({ message: "Track not found" });
+		}
+
+		req.track = track;
+		next();
+	} catch (error) {
+		console.error("Track authorization error:", error);
+		return res.status(500).json({
+			message: "Error retrieving track",
+			error: error instanceof Error ? error.message : "Unknown error",
+		});
+	}
+}
+
+/**
+ * Auth Route Documentation
+ *
+ * POST /api/register
+ * - Creates a user with a hashed password and signs them in
+ *
+ * POST /api/login
+ * - Signs in with username and password
+ *
+ * POST /api/logout
+ * - Ends the current session
+ *
+ * GET /api/user
+ * - Returns the signed-in user with their version limit, or 401
+ *
+ * PATCH /api/user
+ * - Updates the signed-in user's preferences (key notation)
+ *
+ * Returns the session middleware so WebSocket upgrades can read the session.
+ */
+export function setupAuth(app: Express): RequestHandler {
+	if (!process.env.SESSION_SECRET) {
+		throw new Error("SESSION_SECRET environment variable is not defined");
+	}
+
+	const sessionSettings: session.SessionOptions = {
+		secret: process.env.SESSION_SECRET,
+		resave: false,
+		saveUninitialized: false,
+		store: storage.sessionStore,
+		cookie: {
+			httpOnly: true,
+			sameSite: "lax",
+			secure: app.get("env") === "production",
+			maxAge: 7 * 24 * 60 * 60 * 1000,
+		},
+	};
+
+	if (app.get("env") === "production") {
+		app.set("trust proxy", 1);
+	}
+
+	const sessionParser = session(sessionSettings);
+	app.use(sessionParser);
+	app.use(passport.initialize());
+	app.use(passport.session());
+
+	passport.use(
+		new LocalStrategy(async (username, password, done) => {
+			try {
+				const user = await storage.getUserByUsername(username);
+				if (!user || !(await comparePasswords(password, user.password))) {
+					return done(null, false);
+				}
+				return done(null, user);
+			} catch (error) {
+				return done(error);
+			}
+		})
+	);
+
+	passport.serializeUser((user, done) => done(null, user.id));
+	passport.deserializeUser(async (id: number, done) => {
+		try {
+			const user = await storage.getUser(id);
+			done(null, user || false);
+		} catch (error) {
+			done(error);
+		}
+	});
+
+	app.post(
+		"/api/register",
+		async (req: Request, res: Response, next: NextFunction) => {
+			try {
+				const parsed = insertUserSchema.safeParse(req.body);
+				if (!parsed.success) {
+					return res.status(400).json({
+						message: "Invalid registration details",
+						errors: parsed.error.flatten().fieldErrors,
+					});
+				}
+
+				const existingUser = await storage.getUserByUsername(
+					parsed.data.username
+				);
+				if (existingUser) {
+					return res.status(400).json({ message: "Username already exists" });
+				}
+
+				const user = await storage.createUser({
+					username: parsed.data.username,
+					password: await hashPassword(parsed.data.password),
+				});
+
+				req.login(user, (err) => {
+					if (err) return next(err);
+					return res.status(201).json(toPublicUser(user));
+				});
+			} catch (error) {
+				console.error("Register error:", error);
+				return res.status(500).json({
+					message: "Error creating account",
+					error: error instanceof Error ? error.message : "Unknown error",
+				});
+			}
+		}
+	);
+
+	app.post("/api/login", (req: Request, res: Response, next: NextFunction) => {
+		passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+			if (err) return next(err);
+			if (!user) {
+				return res
+					.status(401)
+					.json({ message: "Invalid username or password" });
+			}
+			req.login(user, (loginErr) => {
+				if (loginErr) return next(loginErr);
+				return res.status(200).json(toPublicUser(user));
+			});
+		})(req, res, next);
+	});
+
+	app.post("/api/logout", (req: Request, res: Response, next: NextFunction) => {
+		req.logout((err) => {
+			if (err) return next(err);
+			req.session.destroy((destroyErr) => {
+				if (destroyErr) return next(destroyErr);
+				res.clearCookie("connect.sid");
+				return res.sendStatus(200);
+			});
+		});
+	});
+
+	app.get("/api/user", (req: Request, res: Response) => {
+		if (!req.isAuthenticated()) {
+			return res.sendStatus(401);
+		}
+		return res.json(toPublicUser(req.user));
+	});
+
+	app.patch("/api/user", async (req: Request, res: Response) => {
+		if (!req.isAuthenticated()) {
+			return res.sendStatus(401);
+		}
+
+		const parsed = updateUserSchema.safeParse(req.body);
+		if (!parsed.success) {
+			return res.status(400).json({
+				message: "Invalid preferences",
+				errors: parsed.error.flatten().fieldErrors,
+			});
+		}
+
+		try {
+			const user = await storage.updateUser(req.user.id, parsed.data);
+			if (!user) {
+				return res.sendStatus(401);
+			}
+			return res.json(toPublicUser(user));
+		} catch (error) {
+			console.error("Update user error:", error);
+			return res.status(500).json({
+				message: "Error updating preferences",
+				error: error instanceof Error ? error.message : "Unknown error",
+			});
+		}
+	});
+
+	return sessionParser;
+}
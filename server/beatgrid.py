@@ -0,0 +1,88 @@
+"""
+beatgrid.py
+
+Shared beat grid and tempo map helpers for utils.py and audioProcessor.py.
+
+A beat grid is a JSON-ready dict whose keys match the BeatGrid type in
+shared/schema.ts:
+- bpm: tempo from the median beat interval
+- confidence: 0..1, how steady the beat intervals are
+- firstDownbeat: seconds to the first downbeat
+- beats / downbeats: times in seconds
+"""
+
+import librosa
+import numpy as np
+
+
+def audio_segment_to_array(segment):
+    """Mono float samples in -1..1 and the sample rate of a pydub AudioSegment."""
+    mono = segment.set_channels(1)
+    samples = np.array(mono.get_array_of_samples(), dtype=np.float32)
+    return samples / float(1 << (8 * mono.sample_width - 1)), mono.frame_rate
+
+
+def build_beat_grid(beat_times, y, sr, beats_per_bar=4):
+    """Build a beat grid from already detected beat times.
+
+    Downbeats are taken as the beat phase whose beats carry the strongest
+    onsets on average, which is where kicks and chord changes usually land.
+    Returns None when there are too few beats to form a grid.
+    """
+    beat_times = np.asarray(beat_times, dtype=float)
+    if len(beat_times) < 2:
+        return None
+
+    intervals = np.diff(beat_times)
+    median_interval = float(np.median(intervals))
+    # 1 for a perfectly steady grid, falling towards 0 as intervals wander
+    confidence = float(np.clip(1 - np.std(intervals) / median_interval, 0, 1))
+
+    onset_env = librosa.onset.onset_strength(y=y, sr=sr)
+    onset_times = librosa.times_like(onset_env, sr=sr)
+    strengths = np.interp(beat_times, onset_times, onset_env)
+    phase = max(range(min(beats_per_bar, len(beat_times))),
+                key=lambda p: float(np.mean(strengths[p::beats_per_bar])))
+    downbeats = beat_times[phase::beats_per_bar]
+
+    return {
+        "bpm": round(60.0 / median_interval, 3),
+        "confidence": round(confidence, 3),
+        "firstDownbeat": round(float(downbeats[0]), 3),
+        "beats": [round(float(t), 3) for t in beat_times],
+        "downbeats": [round(float(t), 3) for t in downbeats],
+    }
+
+
+def build_tempo_map(beat_times, window_beats=32, tolerance=0.02):
+    """Tempo segments for a track whose tempo changes, as a JSON-ready list
+    matching the TempoMap type in shared/schema.ts.
+
+    The local tempo is the median beat interval over windows of
+    `window_beats` beats; a new segment starts when it moves more than
+    `tolerance` (relative) away from the current segment's tempo. Returns
+    None for tracks that hold one tempo throughout.
+    """
+    beat_times = np.asarray(beat_times, dtype=float)
+    if len(beat_times) < window_beats * 2:
+        return None
+
+    segments = []
+    for start in range(0, len(beat_times) - window_beats, window_beats):
+        window = beat_times[start:start + window_beats + 1]
+        bpm = 60.0 / float(np.median(np.diff(window)))
+        if not segments or abs(bpm - segments[-1]["bpm"]) / segments[-1]["bpm"] > tolerance:
+            segments.append({"start": round(float(window[0]), 3),
+                             "bpm": round(bpm, 2)})
+
+    if len(segments) < 2:
+        return None
+    segments[0]["start"] = 0.0
+    return segments
+
+
+def detect_beat_grid(y, sr, beats_per_bar=4):
+    """Detect beats with librosa and build a beat grid from them."""
+    _tempo, beat_frames = librosa.beat.beat_track(y=y, sr=sr)
+    beat_times = librosa.frames_to_time(beat_frames, sr=sr)
+    return build_beat_grid(beat_times, y, sr, beats_per_bar)
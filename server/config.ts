@@ -0,0 +1,21 @@
+/** @format */
+
+import type { User } from "@shared/schema";
+
+export function readPositiveInt(
+	value: string | undefined,
+	fallback: number
+): number {
+	const parsed = parseInt(value || "", 10);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// Extended versions kept per track unless the user has their own quota
+export const defaultMaxVersionsPerTrack = readPositiveInt(
+	process.env.MAX_VERSIONS_PER_TRACK,
+	3
+);
+
+export function getVersionLimit(user: Pick<User, "maxVersionsPerTrack">) {
+	return user.maxVersionsPerTrack ?? defaultMaxVersionsPerTrack;
+}
@@ -0,0 +1,120 @@
+/** @format */
+
+import type {
+	AudioTrack,
+	ProcessingSettings,
+	TrackVersion,
+} from "@shared/schema";
+import type { ExportEntry } from "../common";
+
+// Versions shared by the exporter tests. They are created at midday UTC, so
+// Traktor's local dates come out the same in every timezone.
+
+const settings = (introLength: number, outroLength: number) =>
+	({ introLength, outroLength } as ProcessingSettings);
+
+// Bar lines every 4 beats at `bpm`, from `first` up to `end` seconds
+function barLines(first: number, bpm: number, end: number): number[] {
+	const bars: number[] = [];
+	for (let time = first; time < end; time += (4 * 60) / bpm) {
+		bars.push(Number(time.toFixed(3)));
+	}
+	return bars;
+}
+
+// A tagged track whose tempo rises from 124 to 126 BPM a minute in, with a
+// rendered version that recorded its grid and intro/outro positions
+const taggedTrack = {
+	id: 1,
+	originalFilename: "Run It (Club Mix).wav",
+	title: "Run It",
+	artist: "Beyoncé & Co",
+	album: "Nights <Live>",
+	label: 'Deep "Cuts"',
+	genre: "House",
+	year: 2024,
+	bpm: 124,
+	tempoMap: [
+		{ start: 0, bpm: 124 },
+		{ start: 60, bpm: 126 },
+	],
+	keyTonic: 9,
+	keyMode: "minor",
+	keyConfidence: 0.8,
+	key: "A minor",
+} as AudioTrack;
+
+const renderedVersion = {
+	id: 11,
+	trackId: 1,
+	versionNumber: 2,
+	filePath: "/srv/results/run_it_extended_v2.wav",
+	duration: 245,
+	settings: settings(16, 16),
+	seed: 7,
+	introArrangement: null,
+	status: "completed",
+	label: null,
+	pinned: false,
+	introEnd: 31,
+	outroStart: 214.1,
+	beatGrid: {
+		bpm: 124,
+		confidence: 0.9,
+		firstDownbeat: 0.05,
+		beats: [],
+		downbeats: barLines(0.05, 124, 245),
+	},
+	createdAt: new Date("2024-05-01T12:00:00Z"),
+} as TrackVersion;
+
+// An untagged track rendered before versions recorded a grid or cue
+// positions, so its cues fall back to the bar counts at the track's BPM
+const legacyTrack = {
+	id: 2,
+	originalFilename: "track#1.mp3",
+	title: null,
+	artist: null,
+	album: null,
+	label: null,
+	genre: null,
+	year: null,
+	bpm: 128,
+	tempoMap: null,
+	keyTonic: null,
+	keyMode: null,
+	keyConfidence: null,
+	key: null,
+} as AudioTrack;
+
+const legacyVersion = {
+	id: 12,
+	trackId: 2,
+	versionNumber: 1,
+	filePath: "/srv/results/track_extended_v1.mp3",
+	duration: 300,
+	settings: settings(32, 16),
+	seed: null,
+	introArrangement: null,
+	status: "completed",
+	label: "Warm-up edit",
+	pinned: true,
+	introEnd: null,
+	outroStart: null,
+	beatGrid: null,
+	createdAt: new Date("2023-11-20T12:00:00Z"),
+} as TrackVersion;
+
+// One version on the macOS system drive, one on a Windows drive
+export const exportEntries: ExportEntry[] = [
+	{
+		track: taggedTrack,
+		version: renderedVersion,
+		filePath: "/Users/dj/Music/Beyoncé & Co/Run It (Club Mix)_extended_v2.wav",
+	},
+	{
+		track: legacyTrack,
+		version: legacyVersion,
+		filePath: "C:/Music/Deep House/track#1_extended_v1.mp3",
+	},
+];
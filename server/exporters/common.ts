@@ -0,0 +1,183 @@
+/** @format */
+
+import path from "path";
+import type { AudioTrack, TrackVersion } from "@shared/schema";
+
+// One extended version as it appears in an exported DJ library
+export interface ExportEntry {
+	track: AudioTrack;
+	version: TrackVersion;
+	filePath: string; // where the DJ software will find the file
+}
+
+// A bar line where a tempo starts, in seconds into an extended version
+export interface TempoMark {
+	start: number;
+	bpm: number;
+}
+
+// Seconds into an extended version where each part of the mix begins
+export interface CuePoints {
+	intro: number;
+	main: number;
+	outro: number;
+}
+
+/**
+ * Name a downloaded extended version is saved under, e.g.
+ * "Song_extended_v2.wav", with the extension of the format it was rendered
+ * to. Exports point at this name inside the DJ's music folder, so it must
+ * match the download route.
+ */
+export function downloadFilenameFor(
+	track: Pick<AudioTrack, "originalFilename">,
+	version: Pick<TrackVersion, "versionNumber" | "filePath">
+): string {
+	const name = path.basename(
+		track.originalFilename,
+		path.extname(track.originalFilename)
+	);
+	return `${name}_extended_v${version.versionNumber}${path.extname(
+		version.filePath
+	)}`;
+}
+
+/**
+ * Where an entry's file lives for the DJ software: inside `folder` when the
+ * user named the folder they download into, otherwise the server's own copy
+ * (useful when the app runs on the DJ's machine).
+ */
+export function resolveExportPath(
+	track: AudioTrack,
+	version: TrackVersion,
+	folder?: string
+): string {
+	if (!folder) return path.resolve(version.filePath);
+	// Windows folders are written with forward slashes like every other path
+	return path.posix.join(
+		folder.replace(/\\/g, "/"),
+		downloadFilenameFor(track, version)
+	);
+}
+
+/**
+ * Split a local path into the volume it lives on, its folders and its file
+ * name. DJ software stores paths per volume: "C:" on Windows, the drive
+ * name under /Volumes on macOS, and "Macintosh HD" for the system drive.
+ */
+export function splitVolume(filePath: string): {
+	volume: string;
+	folders: string[];
+	file: string;
+} {
+	const parts = filePath.replace(/\\/g, "/").split("/").filter(Boolean);
+	const file = parts.pop() ?? "";
+	if (/^[A-Za-z]:$/.test(parts[0] ?? "")) {
+		return { volume: parts[0].toUpperCase(), folders: parts.slice(1), file };
+	}
+	if (parts[0] === "Volumes" && parts.length > 1) {
+		return { volume: parts[1], folders: parts.slice(2), file };
+	}
+	return { volume: "Macintosh HD", folders: parts, file };
+}
+
+/**
+ * file:// URL for a local path, as Rekordbox and Serato expect it:
+ * "file://localhost/C:/Music/a%20b.wav" or "file://localhost/Users/dj/a.wav"
+ */
+export function fileUrl(filePath: string): string {
+	const normalized = filePath.replace(/\\/g, "/");
+	const absolute = normalized.startsWith("/") ? normalized : `/${normalized}`;
+	return `file://localhost${absolute
+		.split("/")
+		.map((part) => encodeURIComponent(part).replace(/%3A/g, ":"))
+		.join("/")}`;
+}
+
+function barsToSeconds(bars: number, bpm: number): number {
+	return (bars * 4 * 60) / bpm;
+}
+
+/**
+ * Intro, main-body and outro start of an extended version. Versions record
+ * the exact positions when rendered; older ones fall back to the bar counts
+ * in their settings at the track's BPM.
+ */
+export function getCuePoints(
+	track: Pick<AudioTrack, "bpm">,
+	version: TrackVersion
+): CuePoints {
+	const bpm = version.beatGrid?.bpm || track.bpm || 120;
+	const duration = version.duration ?? 0;
+	// Renders start the intro on the first bar line
+	const intro = version.beatGrid?.firstDownbeat ?? 0;
+	const main =
+		version.introEnd ??
+		intro + barsToSeconds(version.settings.introLength, bpm);
+	const outro =
+		version.outroStart ??
+		Math.max(main, duration - barsToSeconds(version.settings.outroLength, bpm));
+	return { intro, main, outro };
+}
+
+/**
+ * Tempo marks for an extended version. Rendered versions carry a detected
+ * grid; a tempo map on the original adds a mark at each tempo change,
+ * shifted past the intro and snapped to the nearest bar line.
+ */
+export function getTempoMarks(
+	track: Pick<AudioTrack, "bpm" | "tempoMap">,
+	version: TrackVersion
+): TempoMark[] {
+	const grid = version.beatGrid;
+	const bpm = grid?.bpm || track.bpm;
+	if (!bpm) return [];
+
+	const first = { start: grid?.firstDownbeat ?? 0, bpm };
+	const tempoMap = track.tempoMap;
+	if (
+		!grid?.downbeats.length ||
+		!tempoMap ||
+		tempoMap.length < 2 ||
+		version.introEnd === null
+	) {
+		return [first];
+	}
+
+	const marks = [{ ...first, bpm: tempoMap[0].bpm }];
+	for (const segment of tempoMap.slice(1)) {
+		const time = version.introEnd + segment.start;
+		const snapped = grid.downbeats.reduce((closest, downbeat) =>
+			Math.abs(downbeat - time) < Math.abs(closest - time) ? downbeat : closest
+		);
+		if (snapped > marks[marks.length - 1].start) {
+			marks.push({ start: snapped, bpm: segment.bpm });
+		}
+	}
+	return marks;
+}
+
+export function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&apos;");
+}
+
+// name="value" pairs for an XML element, escaped
+export function xmlAttributes(values: Record<string, string | number>): string {
+	return Object.entries(values)
+		.map(([name, value]) => `${name}="${escapeXml(String(value))}"`)
+		.join(" ");
+}
+
+// Title shown in DJ software: the version's label, or "Song (Extended Mix v2)"
+// from the upload's title tag, or its filename when it had none
+export function exportTitle(track: AudioTrack, version: TrackVersion): string {
+	const name =
+		track.title ||
+		path.basename(track.originalFilename, path.extname(track.originalFilename));
+	return version.label || `${name} (Extended Mix v${version.versionNumber})`;
+}
@@ -0,0 +1,21 @@
+/** @format */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { describe, expect, it } from "vitest";
+import { exportEntries } from "./__fixtures__/entries";
+import { buildRekordboxXml } from "./rekordbox";
+
+const fixture = path.join(
+	path.dirname(fileURLToPath(import.meta.url)),
+	"__fixtures__",
+	"rekordbox.xml"
+);
+
+describe("buildRekordboxXml", () => {
+	it("matches the expected collection", () => {
+		const xml = buildRekordboxXml(exportEntries);
+		expect(xml).toBe(fs.readFileSync(fixture, "utf8"));
+	});
+});
@@ -0,0 +1,119 @@
+/** @format */
+
+import path from "path";
+import { getTrackKey, shortKeyName } from "@shared/musicalKey";
+import {
+	exportTitle,
+	fileUrl,
+	getCuePoints,
+	getTempoMarks,
+	xmlAttributes,
+	type ExportEntry,
+} from "./common";
+
+const kinds: Record<string, string> = {
+	".mp3": "MP3 File",
+	".wav": "WAV File",
+	".flac": "FLAC File",
+	".aiff": "AIFF File",
+	".aif": "AIFF File",
+};
+
+// Hot cue colours: green for the intro, blue for the main body, red for
+// the outro, matching Rekordbox's own palette
+const cues = [
+	{ name: "Intro", part: "intro", rgb: [40, 226, 20] },
+	{ name: "Main", part: "main", rgb: [48, 90, 255] },
+	{ name: "Outro", part: "outro", rgb: [230, 40, 40] },
+] as const;
+
+const seconds = (value: number) => value.toFixed(3);
+
+function trackElement(entry: ExportEntry): string[] {
+	const { track, version, filePath } = entry;
+	const key = getTrackKey(track);
+	const cuePoints = getCuePoints(track, version);
+	const marks = getTempoMarks(track, version);
+
+	const trackAttributes: Record<string, string | number> = {
+		TrackID: version.id,
+		Name: exportTitle(track, version),
+		Artist: track.artist ?? "",
+		Album: track.album ?? "",
+		Genre: track.genre ?? "",
+		Label: track.label ?? "",
+		Year: track.year ?? "",
+		Kind: kinds[path.extname(filePath).toLowerCase()] ?? "Audio File",
+		TotalTime: version.duration ?? 0,
+		DateAdded: version.createdAt.toISOString().slice(0, 10),
+		AverageBpm: (marks[0]?.bpm ?? 0).toFixed(2),
+		Tonality: key ? shortKeyName(key) : "",
+		Comments: `${version.settings.introLength}-bar intro, ${version.settings.outroLength}-bar outro`,
+		Location: fileUrl(filePath),
+	};
+
+	const lines = [`\t\t<TRACK ${xmlAttributes(trackAttributes)}>`];
+	for (const mark of marks) {
+		lines.push(
+			`\t\t\t<TEMPO ${xmlAttributes({
+				Inizio: seconds(mark.start),
+				Bpm: mark.bpm.toFixed(2),
+				Metro: "4/4",
+				Battito: 1,
+			})}/>`
+		);
+	}
+	// A memory cue and a hot cue (A, B, C) at each part of the mix
+	cues.forEach((cue, index) => {
+		const start = seconds(cuePoints[cue.part]);
+		lines.push(
+			`\t\t\t<POSITION_MARK ${xmlAttributes({
+				Name: cue.name,
+				Type: 0,
+				Start: start,
+				Num: -1,
+			})}/>`,
+			`\t\t\t<POSITION_MARK ${xmlAttributes({
+				Name: cue.name,
+				Type: 0,
+				Start: start,
+				Num: index,
+				Red: cue.rgb[0],
+				Green: cue.rgb[1],
+				Blue: cue.rgb[2],
+			})}/>`
+		);
+	});
+	lines.push("\t\t</TRACK>");
+	return lines;
+}
+
+/**
+ * Rekordbox collection XML (File > Import Collection) holding every given
+ * extended version with its beat grid and cues, plus an "Extended Mixes"
+ * playlist so the imported versions are easy to find.
+ */
+export function buildRekordboxXml(entries: ExportEntry[]): string {
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<DJ_PLAYLISTS Version="1.0.0">',
+		`\t<PRODUCT ${xmlAttributes({
+			Name: "DJ Mix Extender",
+			Version: "1.0.0",
+			Company: "",
+		})}/>`,
+		`\t<COLLECTION Entries="${entries.length}">`,
+		...entries.flatMap(trackElement),
+		"\t</COLLECTION>",
+		"\t<PLAYLISTS>",
+		'\t\t<NODE Type="0" Name="ROOT" Count="1">',
+		`\t\t\t<NODE Name="Extended Mixes" Type="1" KeyType="0" Entries="${entries.length}">`,
+		...entries.map(({ version }) => `\t\t\t\t<TRACK Key="${version.id}"/>`),
+		"\t\t\t</NODE>",
+		"\t\t</NODE>",
+		"\t</PLAYLISTS>",
+		"</DJ_PLAYLISTS>",
+		"",
+	];
+	return lines.join("\n");
+}
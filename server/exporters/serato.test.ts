@@ -0,0 +1,37 @@
+/** @format */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { describe, expect, it } from "vitest";
+import { exportEntries } from "./__fixtures__/entries";
+import { buildSeratoCrate } from "./serato";
+
+const fixture = path.join(
+	path.dirname(fileURLToPath(import.meta.url)),
+	"__fixtures__",
+	"serato.crate"
+);
+
+describe("buildSeratoCrate", () => {
+	it("matches the expected crate bytes", () => {
+		const crate = buildSeratoCrate(exportEntries);
+		expect(crate.equals(fs.readFileSync(fixture))).toBe(true);
+	});
+
+	it("lists each track by its path from the drive root", () => {
+		const crate = buildSeratoCrate(exportEntries);
+		const paths = [...crate.toString("latin1").matchAll(/ptrk/g)].map(
+			({ index }) => {
+				const length = crate.readUInt32BE(index! + 4);
+				return Buffer.from(crate.subarray(index! + 8, index! + 8 + length))
+					.swap16()
+					.toString("utf16le");
+			}
+		);
+		expect(paths).toEqual([
+			"Users/dj/Music/Beyoncé & Co/Run It (Club Mix)_extended_v2.wav",
+			"Music/Deep House/track#1_extended_v1.mp3",
+		]);
+	});
+});
@@ -0,0 +1,145 @@
+/** @format */
+
+import {
+	splitVolume,
+	type CuePoints,
+	type ExportEntry,
+	type TempoMark,
+} from "./common";
+
+// Serato's cue palette: green intro, blue main body, red outro
+const cues = [
+	{ name: "Intro", part: "intro", rgb: [0x00, 0xcc, 0x00] },
+	{ name: "Main", part: "main", rgb: [0x00, 0x00, 0xcc] },
+	{ name: "Outro", part: "outro", rgb: [0xcc, 0x00, 0x00] },
+] as const;
+
+// Serato pads the Markers2 tag to at least this many bytes
+const MARKERS2_MIN_LENGTH = 470;
+
+function uint32(value: number): Buffer {
+	const buffer = Buffer.alloc(4);
+	buffer.writeUInt32BE(value);
+	return buffer;
+}
+
+function float32(value: number): Buffer {
+	const buffer = Buffer.alloc(4);
+	buffer.writeFloatBE(value);
+	return buffer;
+}
+
+function utf16be(text: string): Buffer {
+	return Buffer.from(text, "utf16le").swap16();
+}
+
+// Crate files are a flat list of 4-letter tags with big-endian lengths
+function crateField(tag: string, payload: Buffer): Buffer {
+	return Buffer.concat([
+		Buffer.from(tag, "ascii"),
+		uint32(payload.length),
+		payload,
+	]);
+}
+
+/**
+ * Serato crate listing every given extended version. Save it as
+ * "_Serato_/Subcrates/Extended Mixes.crate" on the drive holding the files;
+ * Serato stores track paths relative to that drive's root.
+ */
+export function buildSeratoCrate(entries: ExportEntry[]): Buffer {
+	const columns = ["song", "bpm", "key", "length"].map((column) =>
+		crateField(
+			"ovct",
+			Buffer.concat([
+				crateField("tvcn", utf16be(column)),
+				crateField("tvcw", utf16be("0")),
+			])
+		)
+	);
+	const tracks = entries.map(({ filePath }) => {
+		const { folders, file } = splitVolume(filePath);
+		return crateField(
+			"otrk",
+			crateField("ptrk", utf16be([...folders, file].join("/")))
+		);
+	});
+
+	return Buffer.concat([
+		crateField("vrsn", utf16be("1.0/Serato ScratchLive Crate")),
+		crateField(
+			"osrt",
+			Buffer.concat([
+				crateField("tvcn", utf16be("song")),
+				crateField("brev", Buffer.from([0])),
+			])
+		),
+		...columns,
+		...tracks,
+	]);
+}
+
+function markers2Entry(name: string, data: Buffer): Buffer {
+	return Buffer.concat([
+		Buffer.from(`${name}\0`, "utf8"),
+		uint32(data.length),
+		data,
+	]);
+}
+
+/**
+ * Body of the "Serato Markers2" GEOB frame: hot cues 1-3 at the intro,
+ * main-body and outro starts, and a locked BPM so Serato keeps the grid.
+ * The entries are base64 encoded in 72-character lines, as Serato writes them.
+ */
+export function buildSeratoMarkers2(cuePoints: CuePoints): Buffer {
+	const entries = cues.map((cue, index) =>
+		markers2Entry(
+			"CUE",
+			Buffer.concat([
+				Buffer.from([0x00, index]),
+				uint32(Math.round(cuePoints[cue.part] * 1000)),
+				Buffer.from([0x00, ...cue.rgb, 0x00, 0x00]),
+				Buffer.from(`${cue.name}\0`, "utf8"),
+			])
+		)
+	);
+	const payload = Buffer.concat([
+		Buffer.from([0x01, 0x01]),
+		...entries,
+		markers2Entry("BPMLOCK", Buffer.from([0x01])),
+		Buffer.from([0x00]),
+	]);
+
+	const base64 = payload.toString("base64").match(/.{1,72}/g) ?? [];
+	const data = Buffer.concat([
+		Buffer.from([0x01, 0x01]),
+		Buffer.from(base64.join("\n"), "ascii"),
+	]);
+	return Buffer.concat([
+		data,
+		Buffer.alloc(Math.max(0, MARKERS2_MIN_LENGTH - data.length)),
+	]);
+}
+
+/**
+ * Body of the "Serato BeatGrid" GEOB frame. Every marker but the last
+ * gives the number of beats until the next one; the last gives the tempo.
+ */
+export function buildSeratoBeatGrid(marks: TempoMark[]): Buffer {
+	const markers = marks.map((mark, index) => {
+		const next = marks[index + 1];
+		return Buffer.concat([
+			float32(mark.start),
+			next
+				? uint32(Math.round(((next.start - mark.start) * mark.bpm) / 60))
+				: float32(mark.bpm),
+		]);
+	});
+	return Buffer.concat([
+		Buffer.from([0x01, 0x00]),
+		uint32(marks.length),
+		...markers,
+		Buffer.from([0x00]),
+	]);
+}
@@ -0,0 +1,54 @@
+/** @format */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { describe, expect, it } from "vitest";
+import { exportEntries } from "./__fixtures__/entries";
+import { buildTraktorNml } from "./traktor";
+
+const fixture = path.join(
+	path.dirname(fileURLToPath(import.meta.url)),
+	"__fixtures__",
+	"traktor.nml"
+);
+
+// NAME, TYPE, START and HOTCUE of every CUE_V2 in one collection entry
+function cuesOf(nml: string, entry: number) {
+	const entries = nml.split("<ENTRY MODIFIED_DATE").slice(1);
+	return [...entries[entry].matchAll(/<CUE_V2 ([^>]*)>/g)].map(([, attrs]) => {
+		const attr = (name: string) => attrs.match(`\\b${name}="([^"]*)"`)?.[1];
+		return {
+			name: attr("NAME"),
+			type: Number(attr("TYPE")),
+			start: Number(attr("START")),
+			hotcue: Number(attr("HOTCUE")),
+		};
+	});
+}
+
+describe("buildTraktorNml", () => {
+	it("matches the expected collection", () => {
+		const nml = buildTraktorNml(exportEntries);
+		expect(nml).toBe(fs.readFileSync(fixture, "utf8"));
+	});
+
+	it("puts the grid marker on the first bar and hot cues on each part", () => {
+		const nml = buildTraktorNml(exportEntries);
+
+		// Type 4 is a grid marker, type 0 a plain cue; START is in ms
+		expect(cuesOf(nml, 0)).toEqual([
+			{ name: "AutoGrid", type: 4, start: 50, hotcue: -1 },
+			{ name: "Intro", type: 0, start: 50, hotcue: 0 },
+			{ name: "Main", type: 0, start: 31000, hotcue: 1 },
+			{ name: "Outro", type: 0, start: 214100, hotcue: 2 },
+		]);
+		// Without a detected grid the marker sits at the start of the file
+		expect(cuesOf(nml, 1)).toEqual([
+			{ name: "AutoGrid", type: 4, start: 0, hotcue: -1 },
+			{ name: "Intro", type: 0, start: 0, hotcue: 0 },
+			{ name: "Main", type: 0, start: 60000, hotcue: 1 },
+			{ name: "Outro", type: 0, start: 270000, hotcue: 2 },
+		]);
+	});
+});
@@ -0,0 +1,143 @@
+/** @format */
+
+import { getTrackKey, shortKeyName } from "@shared/musicalKey";
+import {
+	escapeXml,
+	exportTitle,
+	getCuePoints,
+	getTempoMarks,
+	splitVolume,
+	xmlAttributes,
+	type ExportEntry,
+} from "./common";
+
+// CUE_V2 TYPE values
+const CUE_TYPE_CUE = 0;
+const CUE_TYPE_GRID = 4;
+
+const cues = [
+	{ name: "Intro", part: "intro" },
+	{ name: "Main", part: "main" },
+	{ name: "Outro", part: "outro" },
+] as const;
+
+// Traktor writes dates as 2024/3/7
+function traktorDate(date: Date): string {
+	return `${date.getFullYear()}/${date.getMonth() + 1}/${date.getDate()}`;
+}
+
+// Traktor's location key: volume, then every folder prefixed with "/:"
+function traktorLocation(filePath: string) {
+	const { volume, folders, file } = splitVolume(filePath);
+	const dir = `${folders.map((folder) => `/:${folder}`).join("")}/:`;
+	return { volume, dir, file, key: `${volume}${dir}${file}` };
+}
+
+function cueElement(
+	name: string,
+	type: number,
+	seconds: number,
+	hotcue: number
+): string {
+	return `\t\t\t<CUE_V2 ${xmlAttributes({
+		NAME: name,
+		DISPL_ORDER: 0,
+		TYPE: type,
+		START: (seconds * 1000).toFixed(6),
+		LEN: "0.000000",
+		REPEATS: -1,
+		HOTCUE: hotcue,
+	})}></CUE_V2>`;
+}
+
+function entryElement(entry: ExportEntry): string[] {
+	const { track, version, filePath } = entry;
+	const key = getTrackKey(track);
+	const cuePoints = getCuePoints(track, version);
+	// Traktor grids hold one tempo, so only the first mark is used
+	const [mark] = getTempoMarks(track, version);
+	const location = traktorLocation(filePath);
+	const date = traktorDate(version.createdAt);
+	const duration = version.duration ?? 0;
+
+	const lines = [
+		`\t\t<ENTRY ${xmlAttributes({
+			MODIFIED_DATE: date,
+			TITLE: exportTitle(track, version),
+			ARTIST: track.artist ?? "",
+		})}>`,
+		`\t\t\t<LOCATION ${xmlAttributes({
+			DIR: location.dir,
+			FILE: location.file,
+			VOLUME: location.volume,
+			VOLUMEID: "",
+		})}></LOCATION>`,
+		`\t\t\t<ALBUM ${xmlAttributes({ TITLE: track.album ?? "" })}></ALBUM>`,
+		`\t\t\t<INFO ${xmlAttributes({
+			GENRE: track.genre ?? "",
+			LABEL: track.label ?? "",
+			KEY: key ? shortKeyName(key) : "",
+			COMMENT: `${version.settings.introLength}-bar intro, ${version.settings.outroLength}-bar outro`,
+			PLAYTIME: duration,
+			PLAYTIME_FLOAT: duration.toFixed(6),
+			IMPORT_DATE: date,
+		})}></INFO>`,
+	];
+	if (mark) {
+		lines.push(
+			`\t\t\t<TEMPO ${xmlAttributes({
+				BPM: mark.bpm.toFixed(6),
+				BPM_QUALITY: "100.000000",
+			})}></TEMPO>`
+		);
+	}
+	if (key) {
+		// 0-11 are C..B major, 12-23 are C..B minor
+		const value = key.tonic + (key.mode === "minor" ? 12 : 0);
+		lines.push(`\t\t\t<MUSICAL_KEY VALUE="${value}"></MUSICAL_KEY>`);
+	}
+	if (mark) {
+		lines.push(cueElement("AutoGrid", CUE_TYPE_GRID, mark.start, -1));
+	}
+	cues.forEach((cue, index) => {
+		lines.push(cueElement(cue.name, CUE_TYPE_CUE, cuePoints[cue.part], index));
+	});
+	lines.push("\t\t</ENTRY>");
+	return lines;
+}
+
+/**
+ * Traktor collection NML (File > Import Collection) with every given
+ * extended version, its tempo, key, a grid marker on the first bar and hot
+ * cues 1-3 at the intro, main-body and outro starts. An "Extended Mixes"
+ * playlist groups the imported versions.
+ */
+export function buildTraktorNml(entries: ExportEntry[]): string {
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+		'<NML VERSION="19">',
+		'\t<HEAD COMPANY="www.native-instruments.com" PROGRAM="Traktor"></HEAD>',
+		`\t<COLLECTION ENTRIES="${entries.length}">`,
+		...entries.flatMap(entryElement),
+		"\t</COLLECTION>",
+		"\t<PLAYLISTS>",
+		'\t\t<NODE TYPE="FOLDER" NAME="$ROOT">',
+		'\t\t\t<SUBNODES COUNT="1">',
+		'\t\t\t\t<NODE TYPE="PLAYLIST" NAME="Extended Mixes">',
+		`\t\t\t\t\t<PLAYLIST ENTRIES="${entries.length}" TYPE="LIST" UUID="">`,
+		...entries.map(
+			({ filePath }) =>
+				`\t\t\t\t\t\t<ENTRY><PRIMARYKEY TYPE="TRACK" KEY="${escapeXml(
+					traktorLocation(filePath).key
+				)}"></PRIMARYKEY></ENTRY>`
+		),
+		"\t\t\t\t\t</PLAYLIST>",
+		"\t\t\t\t</NODE>",
+		"\t\t\t</SUBNODES>",
+		"\t\t</NODE>",
+		"\t</PLAYLISTS>",
+		"</NML>",
+		"",
+	];
+	return lines.join("\n");
+}
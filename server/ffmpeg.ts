@@ -0,0 +1,111 @@
+/** @format */
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { AudioTrack } from "@shared/schema";
+
+const execFileAsync = promisify(execFile);
+
+// pydub already needs ffmpeg and ffprobe, so both are expected on the PATH
+const ffmpegPath = process.env.FFMPEG_PATH || "ffmpeg";
+const ffprobePath = process.env.FFPROBE_PATH || "ffprobe";
+
+const timeout = 30_000;
+
+// The upload's tags as stored on its track
+export type SourceTags = Pick<
+	AudioTrack,
+	"title" | "artist" | "album" | "label" | "genre" | "year"
+>;
+
+/**
+ * Container-level tags of an audio file, keyed by lower-cased tag name
+ * ("title", "artist", "album_artist", "publisher", ...). ffprobe maps ID3,
+ * Vorbis and RIFF INFO tags to these common names.
+ */
+export async function readFormatTags(
+	filePath: string
+): Promise<Record<string, string>> {
+	const { stdout } = await execFileAsync(
+		ffprobePath,
+		["-v", "error", "-show_entries", "format_tags", "-of", "json", filePath],
+		{ timeout }
+	);
+	const tags: Record<string, string> = JSON.parse(stdout).format?.tags ?? {};
+	return Object.fromEntries(
+		Object.entries(tags).map(([name, value]) => [name.toLowerCase(), value])
+	);
+}
+
+/**
+ * Pick the stored tags out of `readFormatTags`. The label has no common
+ * name: ID3 TPUB comes through as "publisher", Vorbis files use "label"
+ * or "organization". Years are read from full dates ("2019-05-03").
+ */
+export function sourceTagsFrom(tags: Record<string, string>): SourceTags {
+	const text = (...names: string[]) =>
+		names.map((name) => tags[name]?.trim()).find(Boolean) ?? null;
+	const year = parseInt(text("date", "year") ?? "", 10);
+	return {
+		title: text("title"),
+		artist: text("artist"),
+		album: text("album"),
+		label: text("publisher", "label", "organization"),
+		genre: text("genre"),
+		year: year >= 1000 && year <= 9999 ? year : null,
+	};
+}
+
+export async function readSourceTags(filePath: string): Promise<SourceTags> {
+	return sourceTagsFrom(await readFormatTags(filePath));
+}
+
+/**
+ * Scale a file's embedded cover art (its first video stream, an attached
+ * picture in ID3, FLAC and MP4 files) down to a JPEG at `outputPath`.
+ * Resolves false when the file has no artwork.
+ */
+export async function extractArtwork(
+	filePath: string,
+	outputPath: string,
+	size = 300
+): Promise<boolean> {
+	const { stdout } = await execFileAsync(
+		ffprobePath,
+		[
+			"-v",
+			"error",
+			"-select_streams",
+			"v",
+			"-show_entries",
+			"stream=index",
+			"-of",
+			"csv=p=0",
+			filePath,
+		],
+		{ timeout }
+	);
+	if (!stdout.trim()) return false;
+
+	await execFileAsync(
+		ffmpegPath,
+		[
+			"-v",
+			"error",
+			"-y",
+			"-i",
+			filePath,
+			"-map",
+			"0:v:0",
+			"-frames:v",
+			"1",
+			"-vf",
+			`scale=${size}:${size}:force_original_aspect_ratio=decrease`,
+			"-q:v",
+			"3",
+			outputPath,
+		],
+		{ timeout }
+	);
+	return true;
+}
@@ -0,0 +1,195 @@
+/** @format */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AudioTrack, ProcessingJob, TrackVersion } from "@shared/schema";
+
+const { storage, pythonShell, emitTrackEvent } = vi.hoisted(() => ({
+	storage: {
+		requeueInterruptedJobs: vi.fn(),
+		claimNextProcessingJob: vi.fn(),
+		getQueuedJobs: vi.fn(),
+		getAudioTrack: vi.fn(),
+		getTrackVersion: vi.fn(),
+		createTrackVersion: vi.fn(),
+		updateTrackVersion: vi.fn(),
+		deleteTrackVersion: vi.fn(),
+		updateAudioTrack: vi.fn(),
+		updateProcessingJob: vi.fn(),
+		updateRunningProcessingJob: vi.fn(),
+	},
+	// utils.py, run once the render's script has finished
+	pythonShell: { run: vi.fn() },
+	emitTrackEvent: vi.fn(),
+}));
+
+vi.mock("./storage", () => ({ storage }));
+vi.mock("./trackEvents", () => ({ emitTrackEvent }));
+vi.mock("./peaks", () => ({ generatePeaks: vi.fn(async () => {}) }));
+vi.mock("./tagging", () => ({ tagRenderedFile: vi.fn(async () => {}) }));
+
+// audioProcessor.py runs print their success line and exit at once
+vi.mock("python-shell", () => ({
+	PythonShell: class {
+		static run = pythonShell.run;
+		private listener?: (message: string) => void;
+		on(_event: string, listener: (message: string) => void) {
+			this.listener = listener;
+		}
+		end(callback: (err: Error | null) => void) {
+			setTimeout(() => {
+				this.listener?.(
+					JSON.stringify({ status: "success", intro_end: 30, outro_start: 200 })
+				);
+				callback(null);
+			});
+		}
+		kill() {}
+	},
+}));
+
+const { ProcessingQueue } = await import("./jobQueue");
+
+const job = {
+	id: 5,
+	trackId: 1,
+	userId: 1,
+	versionId: 10,
+	outputPath: "/tmp/results/a_extended_v1.wav",
+	settings: {
+		introLength: 16,
+		outroLength: 16,
+		preserveVocals: true,
+		vocalMode: "full",
+		beatDetection: "auto",
+	},
+	attempts: 1,
+	maxAttempts: 3,
+} as ProcessingJob;
+
+const track = { id: 1, userId: 1, originalPath: "/tmp/a.wav" } as AudioTrack;
+const version = { id: 10, trackId: 1, seed: 7 } as TrackVersion;
+
+function createQueue() {
+	return new ProcessingQueue({
+		concurrency: 1,
+		maxAttempts: 3,
+		retryDelayMs: 1,
+		pollIntervalMs: 60_000,
+	});
+}
+
+// Start the queue on `job` and wait until its run has settled
+async function runJob(queue: InstanceType<typeof ProcessingQueue>) {
+	const settled = new Promise<void>((resolve) => {
+		storage.getQueuedJobs.mockImplementation(async () => {
+			resolve();
+			return [];
+		});
+	});
+	await queue.start();
+	await settled;
+	queue.stop();
+}
+
+describe("ProcessingQueue", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		storage.requeueInterruptedJobs.mockResolvedValue({
+			requeued: [],
+			exhausted: [],
+		});
+		storage.claimNextProcessingJob
+			.mockResolvedValueOnce(job)
+			.mockResolvedValue(undefined);
+		storage.getAudioTrack.mockResolvedValue(track);
+		storage.getTrackVersion.mockResolvedValue(version);
+		storage.updateTrackVersion.mockResolvedValue(version);
+		storage.updateRunningProcessingJob.mockResolvedValue(job);
+		pythonShell.run.mockResolvedValue([JSON.stringify({ duration: 240 })]);
+	});
+
+	it("publishes a finished render", async () => {
+		const queue = createQueue();
+		await runJob(queue);
+		await vi.waitFor(() =>
+			expect(emitTrackEvent).toHaveBeenCalledWith(
+				1,
+				expect.objectContaining({ type: "completed", jobId: 5 })
+			)
+		);
+		expect(storage.updateTrackVersion).toHaveBeenCalledWith(
+			10,
+			expect.objectContaining({ status: "completed", duration: 240 })
+		);
+		expect(storage.updateAudioTrack).toHaveBeenCalledWith(1, {
+			status: "completed",
+		});
+	});
+
+	it("publishes nothing when cancelled while finalizing", async () => {
+		const queue = createQueue();
+		let cancelling: Promise<void> | undefined;
+		pythonShell.run.mockImplementation(async () => {
+			cancelling = queue.cancel(job);
+			return [JSON.stringify({ duration: 240 })];
+		});
+
+		await runJob(queue);
+		await vi.waitFor(() => expect(cancelling).toBeDefined());
+		await cancelling;
+
+		expect(storage.updateTrackVersion).not.toHaveBeenCalled();
+		expect(storage.updateRunningProcessingJob).not.toHaveBeenCalled();
+		expect(storage.updateAudioTrack).not.toHaveBeenCalled();
+		expect(emitTrackEvent).not.toHaveBeenCalledWith(
+			1,
+			expect.objectContaining({ type: "completed" })
+		);
+		expect(storage.updateProcessingJob).toHaveBeenCalledWith(
+			5,
+			expect.objectContaining({ status: "cancelled" })
+		);
+		expect(storage.deleteTrackVersion).toHaveBeenCalledWith(10);
+	});
+
+	it("fails interrupted jobs that were on their last attempt", async () => {
+		storage.requeueInterruptedJobs.mockResolvedValue({
+			requeued: [],
+			exhausted: [{ ...job, attempts: 3 }],
+		});
+		storage.claimNextProcessingJob.mockReset().mockResolvedValue(undefined);
+		const queue = createQueue();
+
+		await queue.start();
+		queue.stop();
+
+		expect(storage.updateProcessingJob).toHaveBeenCalledWith(
+			5,
+			expect.objectContaining({ status: "failed" })
+		);
+		expect(storage.deleteTrackVersion).toHaveBeenCalledWith(10);
+		expect(storage.updateAudioTrack).toHaveBeenCalledWith(1, {
+			status: "error",
+		});
+		expect(emitTrackEvent).toHaveBeenCalledWith(
+			1,
+			expect.objectContaining({ type: "error", jobId: 5 })
+		);
+	});
+
+	it("leaves the track alone when the job stopped running meanwhile", async () => {
+		storage.updateRunningProcessingJob.mockResolvedValue(undefined);
+		const queue = createQueue();
+		await runJob(queue);
+		await vi.waitFor(() =>
+			expect(storage.updateRunningProcessingJob).toHaveBeenCalled()
+		);
+		await new Promise((resolve) => setTimeout(resolve));
+
+		expect(storage.updateAudioTrack).not.toHaveBeenCalled();
+		expect(emitTrackEvent).not.toHaveBeenCalledWith(
+			1,
+			expect.objectContaining({ type: "completed" })
+		);
+	});
+});
@@ -0,0 +1,542 @@
+/** @format */
+
+import fs from "fs";
+import path from "path";
+import { randomInt } from "crypto";
+import { PythonShell } from "python-shell";
+import { storage } from "./storage";
+import { emitTrackEvent } from "./trackEvents";
+import { readPositiveInt } from "./config";
+import { generatePeaks } from "./peaks";
+import { tagRenderedFile } from "./tagging";
+import {
+	processingErrorCodes,
+	processingStages,
+	type AudioTrack,
+	type ArrangementStem,
+	type BeatGrid,
+	type ProcessingErrorCode,
+	type ProcessingJob,
+	type ProcessingSettings,
+	type ProcessingStage,
+} from "@shared/schema";
+
+interface ProcessingQueueOptions {
+	concurrency: number;
+	maxAttempts: number;
+	retryDelayMs: number;
+	pollIntervalMs: number;
+}
+
+const PROGRESS_PREFIX = "PROGRESS ";
+
+// Parse a `PROGRESS {"stage": ..., "progress": ...}` line from audioProcessor.py
+function parseProgressLine(
+	message: string
+): { stage: ProcessingStage; progress: number } | null {
+	if (!message.startsWith(PROGRESS_PREFIX)) return null;
+
+	try {
+		const data = JSON.parse(message.slice(PROGRESS_PREFIX.length));
+		if (!processingStages.includes(data.stage)) return null;
+		const progress = Math.max(0, Math.min(100, Math.round(data.progress)));
+		return Number.isFinite(progress) ? { stage: data.stage, progress } : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * A failed audioProcessor.py run. `code` comes from the script's final
+ * `{"status": "error", "code": ...}` line, or is UNKNOWN when the script
+ * died without printing one.
+ */
+export class ProcessingScriptError extends Error {
+	constructor(readonly code: ProcessingErrorCode, message: string) {
+		super(message);
+		this.name = "ProcessingScriptError";
+	}
+}
+
+// Failures that will happen again on retry with the same input and settings
+const permanentErrorCodes: ProcessingErrorCode[] = [
+	"NOT_ENOUGH_BEATS",
+	"UNSUPPORTED_FORMAT",
+];
+
+// Find the error reported on stdout by the script, if it got that far
+function parseScriptError(messages: string[]): ProcessingScriptError | null {
+	for (const message of [...messages].reverse()) {
+		try {
+			const data = JSON.parse(message);
+			if (data?.status !== "error") continue;
+			const code = processingErrorCodes.includes(data.code)
+				? data.code
+				: "UNKNOWN";
+			return new ProcessingScriptError(
+				code,
+				data.message || "Failed to process audio"
+			);
+		} catch {
+			// Not a JSON line
+		}
+	}
+	return null;
+}
+
+// Section boundaries of a rendered version, in seconds from its start, the
+// intro stem blocks in the order they were played, and the beat grids of the
+// render and of the source as the render detected it
+interface VersionMarkers {
+	introEnd: number;
+	outroStart: number;
+	introArrangement: ArrangementStem[] | null;
+	beatGrid: BeatGrid | null;
+	sourceBeatGrid: BeatGrid | null;
+}
+
+// Read the markers from the script's final success line
+function parseScriptMarkers(messages: string[]): VersionMarkers | null {
+	for (const message of [...messages].reverse()) {
+		try {
+			const data = JSON.parse(message);
+			if (data?.status !== "success") continue;
+			if (
+				typeof data.intro_end !== "number" ||
+				typeof data.outro_start !== "number"
+			) {
+				return null;
+			}
+			return {
+				introEnd: data.intro_end,
+				outroStart: data.outro_start,
+				introArrangement: Array.isArray(data.intro_arrangement)
+					? data.intro_arrangement
+					: null,
+				beatGrid: data.beat_grid ?? null,
+				sourceBeatGrid: data.source_beat_grid ?? null,
+			};
+		} catch {
+			// Not a JSON line
+		}
+	}
+	return null;
+}
+
+// PythonShell options for a script in server/, shared by every script run
+export function pythonOptions(args: string[]) {
+	return {
+		mode: "text" as const,
+		pythonPath: process.platform === "win32" ? "python" : "python3",
+		pythonOptions: ["-u"],
+		scriptPath: path.join(process.cwd(), "server"),
+		args,
+	};
+}
+
+/**
+ * Persistent FIFO queue for audioProcessor.py runs.
+ *
+ * Jobs live in the processing_jobs table, so anything queued or running
+ * survives a restart: on start() interrupted jobs are put back in the queue.
+ * At most `concurrency` Python processes run at once, and failed runs are
+ * retried with exponential backoff until `maxAttempts` is reached.
+ */
+export class ProcessingQueue {
+	// Job ids holding a worker slot, and the Python process each one is running
+	private readonly active = new Set<number>();
+	private readonly shells = new Map<number, PythonShell>();
+	// Running jobs being cancelled, with a promise that settles once they stop
+	private readonly cancelled = new Set<number>();
+	private readonly runs = new Map<number, Promise<void>>();
+	private timer?: NodeJS.Timeout;
+	private ticking = false;
+
+	constructor(private readonly options: ProcessingQueueOptions) {}
+
+	async start(): Promise<void> {
+		const { requeued, exhausted } = await storage.requeueInterruptedJobs();
+		if (requeued.length > 0) {
+			console.log(
+				`Requeued ${requeued.length} interrupted processing job(s):`,
+				requeued.map((job) => job.id)
+			);
+		}
+		// A render that keeps taking the server down isn't retried forever
+		for (const job of exhausted) {
+			await this.fail(
+				job,
+				new Error("Processing was interrupted on every attempt")
+			);
+		}
+
+		this.timer = setInterval(() => {
+			void this.tick();
+		}, this.options.pollIntervalMs);
+		void this.tick();
+	}
+
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = undefined;
+		}
+	}
+
+	/**
+	 * Queue a render of `track` into `outputPath`. A pending version row is
+	 * created up front with the seed the render will use (the requested one,
+	 * or a random one), so the version can be reproduced later.
+	 */
+	async enqueue(
+		track: AudioTrack,
+		settings: ProcessingSettings,
+		outputPath: string,
+		versionNumber: number
+	): Promise<ProcessingJob> {
+		const version = await storage.createTrackVersion({
+			trackId: track.id,
+			versionNumber,
+			filePath: outputPath,
+			status: "pending",
+			settings,
+			seed: settings.seed ?? randomInt(0, 2 ** 31 - 1),
+		});
+		const job = await storage.createProcessingJob({
+			trackId: track.id,
+			userId: track.userId,
+			settings,
+			outputPath,
+			versionId: version.id,
+			maxAttempts: this.options.maxAttempts,
+		});
+		void this.tick();
+		return job;
+	}
+
+	// Start queued jobs until every worker slot is taken
+	private async tick(): Promise<void> {
+		if (this.ticking) return;
+		this.ticking = true;
+
+		try {
+			while (this.active.size < this.options.concurrency) {
+				const job = await storage.claimNextProcessingJob();
+				if (!job) break;
+				this.active.add(job.id);
+				this.runs.set(job.id, this.run(job));
+				await this.notifyQueuePositions();
+			}
+		} catch (error) {
+			console.error("Processing queue error:", error);
+		} finally {
+			this.ticking = false;
+		}
+	}
+
+	// Everyone still waiting moved up a place
+	private async notifyQueuePositions(): Promise<void> {
+		const queued = await storage.getQueuedJobs();
+		queued.forEach((job, index) => {
+			emitTrackEvent(job.userId, {
+				type: "queue",
+				trackId: job.trackId,
+				jobId: job.id,
+				queuePosition: index + 1,
+			});
+		});
+	}
+
+	private async run(job: ProcessingJob): Promise<void> {
+		const { settings } = job;
+
+		try {
+			const track = await storage.getAudioTrack(job.trackId);
+			if (!track) {
+				await storage.updateProcessingJob(job.id, {
+					status: "failed",
+					lastError: "Track no longer exists",
+					finishedAt: new Date(),
+				});
+				return;
+			}
+
+			const version = job.versionId
+				? await storage.getTrackVersion(job.versionId)
+				: undefined;
+			const results = await this.runScript(job, "audioProcessor.py", [
+				track.originalPath,
+				job.outputPath,
+				settings.introLength.toString(),
+				settings.outroLength.toString(),
+				// Jobs queued before vocal modes existed only carry preserveVocals
+				settings.vocalMode ?? settings.preserveVocals.toString(),
+				settings.beatDetection,
+				JSON.stringify({
+					seed: version?.seed ?? null,
+					introArrangement: settings.introArrangement ?? null,
+					arrangement: settings.arrangement ?? null,
+					// A corrected grid replaces beat detection for this render
+					beatGrid: track.beatGrid?.manual ? track.beatGrid : null,
+					// Jobs queued before output formats existed render to the
+					// extension of their output path
+					output: {
+						format: settings.outputFormat ?? null,
+						mp3Bitrate: settings.mp3Bitrate ?? null,
+						bitDepth: settings.bitDepth ?? null,
+						sampleRate: settings.sampleRate ?? null,
+					},
+				}),
+			]);
+			console.log("Processing complete:", results);
+
+			if (!this.cancelled.has(job.id)) {
+				await this.complete(job, parseScriptMarkers(results));
+			}
+		} catch (error) {
+			if (this.cancelled.has(job.id)) {
+				console.log(`Processing job ${job.id} was cancelled`);
+			} else {
+				console.error("Processing error:", error);
+				await this.fail(job, error);
+			}
+		} finally {
+			this.shells.delete(job.id);
+			this.active.delete(job.id);
+			this.cancelled.delete(job.id);
+			this.runs.delete(job.id);
+			void this.tick();
+		}
+	}
+
+	/**
+	 * Cancel a queued or running job. A running job's Python process is
+	 * killed and the returned promise resolves once it has exited, so the
+	 * caller can safely remove any partial output afterwards.
+	 */
+	async cancel(job: ProcessingJob): Promise<void> {
+		// Flag a running job first, so a render finishing meanwhile sees it
+		const run = this.runs.get(job.id);
+		if (run) this.cancelled.add(job.id);
+
+		await storage.updateProcessingJob(job.id, {
+			status: "cancelled",
+			finishedAt: new Date(),
+		});
+
+		if (run) {
+			this.shells.get(job.id)?.kill("SIGTERM");
+			await run;
+		}
+
+		if (job.versionId) {
+			await storage.deleteTrackVersion(job.versionId);
+		}
+	}
+
+	private runScript(
+		job: ProcessingJob,
+		script: string,
+		args: string[]
+	): Promise<string[]> {
+		return new Promise((resolve, reject) => {
+			if (this.cancelled.has(job.id)) {
+				return reject(new Error("Job was cancelled before it started"));
+			}
+
+			const shell = new PythonShell(script, pythonOptions(args));
+			const messages: string[] = [];
+
+			this.shells.set(job.id, shell);
+			shell.on("message", (message: string) => {
+				const update = parseProgressLine(message);
+				if (update) {
+					void this.reportProgress(job, update.stage, update.progress);
+				} else {
+					messages.push(message);
+				}
+			});
+			shell.end((err) => {
+				if (!err) return resolve(messages);
+				reject(
+					parseScriptError(messages) ||
+						new ProcessingScriptError("UNKNOWN", err.message)
+				);
+			});
+		});
+	}
+
+	private async reportProgress(
+		job: ProcessingJob,
+		stage: ProcessingStage,
+		progress: number
+	): Promise<void> {
+		try {
+			await storage.updateProcessingJob(job.id, { stage, progress });
+			emitTrackEvent(job.userId, {
+				type: "progress",
+				trackId: job.trackId,
+				jobId: job.id,
+				stage,
+				progress,
+			});
+		} catch (error) {
+			console.error("Error saving processing progress:", error);
+		}
+	}
+
+	/**
+	 * Publish a finished render. A cancel can arrive at any await in here;
+	 * from then on nothing is published, since cancel() removes the version
+	 * and its file once this returns.
+	 */
+	private async complete(
+		job: ProcessingJob,
+		markers: VersionMarkers | null
+	): Promise<void> {
+		const isCancelled = () => this.cancelled.has(job.id);
+		await this.reportProgress(job, "finalizing", 95);
+
+		// Get audio info of the processed file
+		let extendedDuration = null;
+		try {
+			const infoResults = await PythonShell.run(
+				"utils.py",
+				pythonOptions([job.outputPath])
+			);
+			if (infoResults && infoResults.length > 0) {
+				const audioInfo = JSON.parse(infoResults[0]);
+				console.log("Extended audio info:", audioInfo);
+				extendedDuration = audioInfo.duration || null;
+			}
+		} catch (e) {
+			console.error("Error reading extended audio info:", e);
+		}
+
+		// Cache waveform peaks so the player can draw the new version at once
+		try {
+			await generatePeaks(job.outputPath);
+		} catch (e) {
+			console.error("Error computing waveform peaks:", e);
+		}
+		if (isCancelled()) return;
+
+		// Publish the pending version and mark the track completed
+		const completedVersion = {
+			status: "completed",
+			duration: extendedDuration,
+			introEnd: markers?.introEnd ?? null,
+			outroStart: markers?.outroStart ?? null,
+			introArrangement: markers?.introArrangement ?? null,
+			beatGrid: markers?.beatGrid ?? null,
+		};
+		const version = job.versionId
+			? await storage.updateTrackVersion(job.versionId, completedVersion)
+			: // Jobs queued before track_versions existed have no pending row
+			  await storage.createTrackVersion({
+					trackId: job.trackId,
+					versionNumber:
+						parseInt(
+							job.outputPath.match(/_extended_v(\d+)\.\w+$/)?.[1] ?? "",
+							10
+						) || 1,
+					filePath: job.outputPath,
+					settings: job.settings,
+					...completedVersion,
+			  });
+		// Tracks analysed before beat grids were stored take the render's one
+		const track = await storage.getAudioTrack(job.trackId);
+
+		// Cue markers and beat grid for DJ software; the render stands without
+		if (track && version) {
+			try {
+				await tagRenderedFile(track, version);
+			} catch (e) {
+				console.error("Error tagging extended audio:", e);
+			}
+		}
+		if (isCancelled()) return;
+
+		// The job row decides: a cancel written since the check above wins
+		const completed = await storage.updateRunningProcessingJob(job.id, {
+			status: "completed",
+			progress: 100,
+			finishedAt: new Date(),
+		});
+		if (!completed || isCancelled()) return;
+		await storage.updateAudioTrack(job.trackId, {
+			status: "completed",
+			...(!track?.beatGrid &&
+				markers?.sourceBeatGrid && { beatGrid: markers.sourceBeatGrid }),
+		});
+		emitTrackEvent(job.userId, {
+			type: "completed",
+			trackId: job.trackId,
+			jobId: job.id,
+		});
+	}
+
+	private async fail(job: ProcessingJob, error: unknown): Promise<void> {
+		const lastError = error instanceof Error ? error.message : String(error);
+		const errorCode =
+			error instanceof ProcessingScriptError ? error.code : "UNKNOWN";
+
+		if (
+			job.attempts < job.maxAttempts &&
+			!permanentErrorCodes.includes(errorCode)
+		) {
+			const delay = this.options.retryDelayMs * 2 ** (job.attempts - 1);
+			await storage.updateProcessingJob(job.id, {
+				status: "queued",
+				stage: "queued",
+				progress: 0,
+				lastError,
+				errorCode,
+				runAfter: new Date(Date.now() + delay),
+			});
+			console.log(
+				`Retrying processing job ${job.id} in ${delay}ms (attempt ${job.attempts}/${job.maxAttempts})`
+			);
+			emitTrackEvent(job.userId, {
+				type: "progress",
+				trackId: job.trackId,
+				jobId: job.id,
+				stage: "queued",
+				progress: 0,
+			});
+			return;
+		}
+
+		await storage.updateProcessingJob(job.id, {
+			status: "failed",
+			lastError,
+			errorCode,
+			finishedAt: new Date(),
+		});
+		if (job.versionId) {
+			await storage.deleteTrackVersion(job.versionId);
+		}
+		// No retry will finish this render, so drop whatever it wrote
+		await fs.promises.rm(job.outputPath, { force: true }).catch((e) => {
+			console.error("Error removing partial output:", e);
+		});
+		await storage.updateAudioTrack(job.trackId, { status: "error" });
+		emitTrackEvent(job.userId, {
+			type: "error",
+			trackId: job.trackId,
+			jobId: job.id,
+			code: errorCode,
+			message: lastError,
+		});
+	}
+}
+
+export const processingQueue = new ProcessingQueue({
+	concurrency: readPositiveInt(process.env.PROCESSING_CONCURRENCY, 1),
+	maxAttempts: readPositiveInt(process.env.PROCESSING_MAX_ATTEMPTS, 3),
+	retryDelayMs: readPositiveInt(process.env.PROCESSING_RETRY_DELAY_MS, 30000),
+	pollIntervalMs: readPositiveInt(
+		process.env.PROCESSING_POLL_INTERVAL_MS,
+		2000
+	),
+});
@@ -0,0 +1,80 @@
+"""
+peaks.py
+
+This script computes a downsampled waveform for an audio file so the client can
+draw it without decoding the audio itself:
+- Mixes the file down to mono.
+- Splits the samples into a fixed number of equal buckets.
+- Keeps the minimum and maximum sample of each bucket, normalised to -1..1.
+
+Run the script from the command line with the audio path and the JSON file to
+write the peaks to; it prints a JSON status line.
+"""
+
+import sys
+import os
+import json
+import logging
+
+import numpy as np
+from pydub import AudioSegment
+
+logging.basicConfig(
+    level=logging.INFO,
+    format='%(asctime)s - %(name)s - %(levelname)s - %(message)s'
+)
+logger = logging.getLogger(__name__)
+
+DEFAULT_POINTS = 1000
+
+
+def compute_peaks(file_path, points=DEFAULT_POINTS):
+    audio = AudioSegment.from_file(file_path).set_channels(1)
+    samples = np.array(audio.get_array_of_samples(), dtype=np.float32)
+    samples /= float(1 << (8 * audio.sample_width - 1))
+
+    mins, maxs = [], []
+    if len(samples) > 0:
+        for bucket in np.array_split(samples, min(points, len(samples))):
+            mins.append(round(float(bucket.min()), 4))
+            maxs.append(round(float(bucket.max()), 4))
+
+    return {
+        "duration": round(len(audio) / 1000, 3),
+        "min": mins,
+        "max": maxs,
+    }
+
+
+def write_peaks(peaks, output_path):
+    # Write next to the target and rename, so readers never see a partial file
+    temp_path = output_path + ".tmp"
+    with open(temp_path, 'w') as f:
+        json.dump(peaks, f)
+    os.replace(temp_path, output_path)
+
+
+def main():
+    if len(sys.argv) < 3:
+        print(json.dumps(
+            {"status": "error", "message": "Usage: python peaks.py <audio_path> <output_json> [points]"}))
+        sys.exit(1)
+
+    file_path = sys.argv[1]
+    output_path = sys.argv[2]
+    points = int(sys.argv[3]) if len(sys.argv) > 3 else DEFAULT_POINTS
+
+    try:
+        peaks = compute_peaks(file_path, points)
+        write_peaks(peaks, output_path)
+    except Exception as error:
+        logger.error("Computing peaks failed: %s", str(error))
+        print(json.dumps({"status": "error", "message": str(error)}))
+        sys.exit(1)
+
+    logger.info("Saved %s peaks to %s", len(peaks["max"]), output_path)
+    print(json.dumps({"status": "success", "points": len(peaks["max"])}))
+
+
+if __name__ == "__main__":
+    main()
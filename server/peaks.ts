@@ -0,0 +1,55 @@
+/** @format */
+
+import fs from "fs";
+import { PythonShell } from "python-shell";
+import type { WaveformPeaks } from "@shared/schema";
+import { pythonOptions } from "./jobQueue";
+
+// Peaks are cached as a JSON file next to the audio they describe
+export function peaksPathFor(audioPath: string): string {
+	return `${audioPath}.peaks.json`;
+}
+
+// Runs in flight, so concurrent requests for one file share a single script
+const pending = new Map<string, Promise<WaveformPeaks>>();
+
+async function readCachedPeaks(
+	audioPath: string
+): Promise<WaveformPeaks | null> {
+	try {
+		const cached = await fs.promises.readFile(peaksPathFor(audioPath), "utf8");
+		return JSON.parse(cached) as WaveformPeaks;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Compute min/max peaks for `audioPath` with peaks.py and cache them on
+ * disk. Called after upload and after each render.
+ */
+export function generatePeaks(audioPath: string): Promise<WaveformPeaks> {
+	const existing = pending.get(audioPath);
+	if (existing) return existing;
+
+	const run = PythonShell.run(
+		"peaks.py",
+		pythonOptions([audioPath, peaksPathFor(audioPath)])
+	)
+		.then(async () => {
+			const peaks = await readCachedPeaks(audioPath);
+			if (!peaks) {
+				throw new Error(`peaks.py wrote no peaks for ${audioPath}`);
+			}
+			return peaks;
+		})
+		.finally(() => pending.delete(audioPath));
+
+	pending.set(audioPath, run);
+	return run;
+}
+
+// Cached peaks, computed on first request for files that predate the cache
+export async function getPeaks(audioPath: string): Promise<WaveformPeaks> {
+	return (await readCachedPeaks(audioPath)) ?? generatePeaks(audioPath);
+}
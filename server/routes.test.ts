@@ -0,0 +1,268 @@
+/** @format */
+
+import os from "os";
+import path from "path";
+import express from "express";
+import request from "supertest";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AudioTrack, TrackVersion, User } from "@shared/schema";
+
+// routes.ts creates its upload and result folders when it is imported
+vi.hoisted(() => {
+	const dir = `${process.env.TMPDIR || "/tmp"}/routes-test-${process.pid}`;
+	process.env.SESSION_SECRET = "test-secret";
+	process.env.UPLOADS_DIR = `${dir}/uploads`;
+	process.env.RESULTS_DIR = `${dir}/results`;
+});
+
+const { storage } = vi.hoisted(() => ({
+	storage: {
+		sessionStore: undefined as unknown,
+		getUser: vi.fn(),
+		getUserByUsername: vi.fn(),
+		getAudioTrack: vi.fn(),
+		getTrackVersions: vi.fn(),
+		getTrackWithVersions: vi.fn(),
+		getAudioTracksByUserId: vi.fn(),
+		getTracksWithVersionsByUserId: vi.fn(),
+		deleteAllUserTracks: vi.fn(),
+		updateAudioTrack: vi.fn(),
+		deleteAudioTrack: vi.fn(),
+		updateTrackVersion: vi.fn(),
+		deleteTrackVersion: vi.fn(),
+		getActiveJobForTrack: vi.fn(),
+		getLatestJobForTrack: vi.fn(),
+		backfillTrackVersions: vi.fn(async () => 0),
+	},
+}));
+
+vi.mock("./storage", async () => {
+	const session = (await import("express-session")).default;
+	storage.sessionStore = new session.MemoryStore();
+	return { storage };
+});
+
+const { processingQueue } = vi.hoisted(() => ({
+	processingQueue: {
+		start: vi.fn(),
+		enqueue: vi.fn(),
+		cancel: vi.fn(),
+	},
+}));
+
+vi.mock("./jobQueue", () => ({ processingQueue }));
+
+const { hashPassword } = await import("./auth");
+const { registerRoutes } = await import("./routes");
+
+const password = "correct horse battery";
+
+function makeUser(id: number, username: string, hash: string): User {
+	return {
+		id,
+		username,
+		password: hash,
+		maxVersionsPerTrack: null,
+		keyNotation: "camelot",
+	};
+}
+
+// Track 1 with one completed version belongs to user A
+const trackOfA = {
+	id: 1,
+	userId: 1,
+	originalFilename: "a.mp3",
+	originalPath: path.join(os.tmpdir(), "a.mp3"),
+	status: "completed",
+} as AudioTrack;
+
+const versionOfA = {
+	id: 10,
+	trackId: 1,
+	versionNumber: 1,
+	filePath: path.join(os.tmpdir(), "a_extended_v1.mp3"),
+	status: "completed",
+} as TrackVersion;
+
+// Every route that takes a track :id
+const trackRoutes: [
+	method: "get" | "put" | "post" | "patch" | "delete",
+	url: string
+][] = [
+	["get", "/api/tracks/1"],
+	["delete", "/api/tracks/1"],
+	["get", "/api/audio/1/original"],
+	["get", "/api/audio/1/extended?versionId=10"],
+	["get", "/api/tracks/1/download?versionId=10"],
+	["get", "/api/tracks/1/peaks"],
+	["get", "/api/tracks/1/beatgrid"],
+	["put", "/api/tracks/1/beatgrid"],
+	["get", "/api/tracks/1/artwork"],
+	["get", "/api/tracks/1/status"],
+	["post", "/api/tracks/1/process"],
+	["post", "/api/tracks/1/cancel"],
+	["get", "/api/tracks/1/export/rekordbox.xml"],
+	["patch", "/api/tracks/1/versions/10"],
+	["delete", "/api/tracks/1/versions/10"],
+];
+
+async function signIn(app: express.Express, username: string) {
+	const agent = request.agent(app);
+	await agent.post("/api/login").send({ username, password }).expect(200);
+	return agent;
+}
+
+describe("track ownership", () => {
+	let app: express.Express;
+
+	beforeAll(async () => {
+		const hash = await hashPassword(password);
+		const users = [makeUser(1, "alice", hash), makeUser(2, "bob", hash)];
+		storage.getUser.mockImplementation(async (id: number) =>
+			users.find((user) => user.id === id)
+		);
+		storage.getUserByUsername.mockImplementation(async (username: string) =>
+			users.find((user) => user.username === username)
+		);
+		storage.getAudioTrack.mockImplementation(async (id: number) =>
+			id === trackOfA.id ? trackOfA : undefined
+		);
+		storage.getTrackVersions.mockResolvedValue([versionOfA]);
+		storage.getTrackWithVersions.mockResolvedValue({
+			...trackOfA,
+			versions: [versionOfA],
+		});
+
+		app = express();
+		app.use(express.json());
+		await registerRoutes(app);
+	});
+
+	// Calls are counted per test; the implementations above stay
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("serves a track to its owner", async () => {
+		const alice = await signIn(app, "alice");
+		const res = await alice.get("/api/tracks/1");
+		expect(res.status).toBe(200);
+		expect(res.body.id).toBe(1);
+	});
+
+	it("requires a signed-in user", async () => {
+		await request(app).get("/api/tracks/1").expect(401);
+	});
+
+	it.each(trackRoutes)(
+		"answers 404 to another user on %s %s",
+		async (method, url) => {
+			const bob = await signIn(app, "bob");
+			const res = await bob[method](url).send({});
+			expect(res.status).toBe(404);
+			// Same answer as for an id that doesn't exist, so ids can't be probed
+			const missing = await bob[method](url.replace("/1", "/999")).send({});
+			expect(missing.status).toBe(404);
+			expect(res.body).toEqual(missing.body);
+
+			expect(storage.updateAudioTrack).not.toHaveBeenCalled();
+			expect(storage.deleteAudioTrack).not.toHaveBeenCalled();
+			expect(storage.updateTrackVersion).not.toHaveBeenCalled();
+			expect(storage.deleteTrackVersion).not.toHaveBeenCalled();
+			expect(processingQueue.cancel).not.toHaveBeenCalled();
+		}
+	);
+
+	it("cancels a running render when its track is deleted", async () => {
+		const job = {
+			id: 6,
+			trackId: 1,
+			outputPath: path.join(process.env.RESULTS_DIR!, "a_extended_v2.mp3"),
+		};
+		storage.getAudioTrack.mockResolvedValueOnce({
+			...trackOfA,
+			status: "processing",
+		});
+		storage.getActiveJobForTrack.mockResolvedValue(job);
+		const alice = await signIn(app, "alice");
+
+		await alice.delete("/api/tracks/1").expect(200);
+
+		expect(processingQueue.cancel).toHaveBeenCalledWith(job);
+		expect(processingQueue.cancel.mock.invocationCallOrder[0]).toBeLessThan(
+			storage.deleteAudioTrack.mock.invocationCallOrder[0]
+		);
+		expect(storage.deleteAudioTrack).toHaveBeenCalledWith(1);
+	});
+
+	it("deletes a track stuck in processing without a job", async () => {
+		storage.getAudioTrack.mockResolvedValueOnce({
+			...trackOfA,
+			status: "processing",
+		});
+		storage.getActiveJobForTrack.mockResolvedValue(undefined);
+		const alice = await signIn(app, "alice");
+
+		await alice.delete("/api/tracks/1").expect(200);
+
+		expect(processingQueue.cancel).not.toHaveBeenCalled();
+		expect(storage.deleteAudioTrack).toHaveBeenCalledWith(1);
+	});
+
+	it("cancels a running render when a version is deleted", async () => {
+		const job = {
+			id: 7,
+			trackId: 1,
+			outputPath: path.join(process.env.RESULTS_DIR!, "a_extended_v3.mp3"),
+		};
+		const secondVersion = { ...versionOfA, id: 11, versionNumber: 2 };
+		storage.getAudioTrack.mockResolvedValueOnce({
+			...trackOfA,
+			status: "processing",
+		});
+		storage.getActiveJobForTrack.mockResolvedValue(job);
+		storage.getTrackVersions.mockResolvedValueOnce([versionOfA, secondVersion]);
+		storage.updateAudioTrack.mockResolvedValue(trackOfA);
+		const alice = await signIn(app, "alice");
+
+		await alice.delete("/api/tracks/1/versions/11").expect(200);
+
+		expect(processingQueue.cancel).toHaveBeenCalledWith(job);
+		expect(storage.deleteTrackVersion).toHaveBeenCalledWith(11);
+		// The remaining version is what the track shows now
+		expect(storage.updateAudioTrack).toHaveBeenCalledWith(1, {
+			status: "completed",
+		});
+	});
+
+	it("names versions by id, not by their place in the list", async () => {
+		const alice = await signIn(app, "alice");
+
+		// 0 was the first version's index; no version has that id
+		await alice.patch("/api/tracks/1/versions/0").send({}).expect(404);
+		await alice.delete("/api/tracks/1/versions/0").expect(404);
+
+		expect(storage.updateTrackVersion).not.toHaveBeenCalled();
+		expect(storage.deleteTrackVersion).not.toHaveBeenCalled();
+	});
+
+	it("cancels running renders before clearing every track", async () => {
+		const job = {
+			id: 5,
+			trackId: 1,
+			outputPath: path.join(process.env.RESULTS_DIR!, "a_extended_v2.mp3"),
+		};
+		storage.getAudioTracksByUserId.mockResolvedValue([trackOfA]);
+		storage.getActiveJobForTrack.mockResolvedValue(job);
+		storage.getTracksWithVersionsByUserId.mockResolvedValue([]);
+		const alice = await signIn(app, "alice");
+
+		await alice.delete("/api/tracks").expect(200);
+
+		expect(processingQueue.cancel).toHaveBeenCalledWith(job);
+		expect(processingQueue.cancel.mock.invocationCallOrder[0]).toBeLessThan(
+			storage.deleteAllUserTracks.mock.invocationCallOrder[0]
+		);
+		expect(storage.deleteAllUserTracks).toHaveBeenCalledWith(1);
+	});
+});
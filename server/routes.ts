@@ -3,11 +3,37 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { processingSettingsSchema } from "@shared/schema";
+import { setupAuth, requireAuth, requireTrackOwner } from "./auth";
+import {
+	beatGridCorrectionSchema,
+	outputFormats,
+	processingSettingsSchema,
+	updateTrackVersionSchema,
+	type AudioTrack,
+	type OutputFormat,
+	type TrackVersion,
+	type TrackWithVersions,
+} from "@shared/schema";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
 import { PythonShell } from "python-shell";
+import { processingQueue } from "./jobQueue";
+import { setupWebSocket } from "./websocket";
+import { emitTrackEvent } from "./trackEvents";
+import { getVersionLimit } from "./config";
+import { generatePeaks, getPeaks, peaksPathFor } from "./peaks";
+import { artworkPathFor, generateArtwork } from "./artwork";
+import { readSourceTags } from "./ffmpeg";
+import { buildBeatGrid } from "@shared/beatGrid";
+import {
+	downloadFilenameFor,
+	resolveExportPath,
+	type ExportEntry,
+} from "./exporters/common";
+import { buildRekordboxXml } from "./exporters/rekordbox";
+import { buildSeratoCrate } from "./exporters/serato";
+import { buildTraktorNml } from "./exporters/traktor";
 
 // Setup multer for file uploads with proper validation
 const uploadsDir =
@@ -130,6 +156,108 @@ function sanitizeFilename(filename: string): string {
 		.replace(/^\.+/, "") // Remove leading dots
 		.slice(0, 255); // Limit filename length
 }
+
+// Security function to delete a file only if it lives inside the base directory
+function secureDeleteFile(filePath: string, baseDirectory: string): void {
+	if (secureFileOperation(filePath, baseDirectory, "delete")) {
+		if (fs.existsSync(filePath)) {
+			fs.unlinkSync(filePath);
+		}
+	}
+}
+
+// Render format matching an upload's extension, WAV for anything else
+function uploadFormat(filename: string): OutputFormat {
+	const extension = path.extname(filename).slice(1).toLowerCase();
+	const format = extension === "aif" ? "aiff" : extension;
+	return outputFormats.find((candidate) => candidate === format) ?? "wav";
+}
+
+// Content-Type of a served audio file, by extension
+const audioContentTypes: Record<string, string> = {
+	".mp3": "audio/mpeg",
+	".wav": "audio/wav",
+	".flac": "audio/flac",
+	".aiff": "audio/aiff",
+};
+
+// Delete an audio file together with its cached peaks and artwork
+function deleteAudioFile(filePath: string, baseDirectory: string): void {
+	secureDeleteFile(filePath, baseDirectory);
+	secureDeleteFile(peaksPathFor(filePath), baseDirectory);
+	secureDeleteFile(artworkPathFor(filePath), baseDirectory);
+}
+
+// Delete the upload and every extended version belonging to a track
+function deleteTrackFiles(track: AudioTrack, versions: TrackVersion[]): void {
+	if (track.originalPath) {
+		deleteAudioFile(track.originalPath, normalizedUploadsDir);
+	}
+
+	for (const version of versions) {
+		deleteAudioFile(version.filePath, normalizedResultDir);
+	}
+}
+
+// Cancel a track's queued or running render and remove what it wrote, so
+// nothing writes into a track or version about to be deleted. Returns
+// whether there was one.
+async function cancelActiveJob(trackId: number): Promise<boolean> {
+	const job = await storage.getActiveJobForTrack(trackId);
+	if (!job) return false;
+	await processingQueue.cancel(job);
+	secureDeleteFile(job.outputPath, normalizedResultDir);
+	return true;
+}
+
+// The completed version a request names by id, or the latest one when it
+// names none. Ids are never reused, so a URL keeps pointing at the same file
+// after other versions are deleted or new ones rendered.
+function findVersion(
+	versions: TrackVersion[],
+	versionId: string | undefined
+): TrackVersion | undefined {
+	if (versionId === undefined) return versions[versions.length - 1];
+	const id = Number(versionId);
+	return versions.find((version) => version.id === id);
+}
+
+// DJ library files served by the export routes, keyed by the name in the
+// URL; `filename` is what the download is saved as when it differs
+const libraryExports: Record<
+	string,
+	{
+		contentType: string;
+		filename?: string;
+		build: (entries: ExportEntry[]) => string | Buffer;
+	}
+> = {
+	"rekordbox.xml": { contentType: "application/xml", build: buildRekordboxXml },
+	"traktor.nml": { contentType: "application/xml", build: buildTraktorNml },
+	// Serato names a crate after its file
+	"serato.crate": {
+		contentType: "application/octet-stream",
+		filename: "Extended Mixes.crate",
+		build: buildSeratoCrate,
+	},
+};
+
+// Every extended version of the given tracks as library export entries
+function exportEntries(
+	tracks: TrackWithVersions[],
+	folder: unknown
+): ExportEntry[] {
+	const exportFolder =
+		typeof folder === "string" && folder.trim() ? folder.trim() : undefined;
+	return tracks.flatMap((track) =>
+		track.versions.map((version) => ({
+			track,
+			version,
+			filePath: resolveExportPath(track, version, exportFolder),
+		}))
+	);
+}
+
 const storage_config = multer.diskStorage({
 	destination: function (req, file, cb) {
 		cb(null, normalizedUploadsDir);
@@ -170,44 +298,92 @@ const upload = multer({
 export async function registerRoutes(app: Express): Promise<Server> {
 	const httpServer = createServer(app);
 
-	// Set up user for demo purposes
-	let demoUser = await storage.getUserByUsername("demo");
-	if (!demoUser) {
-		demoUser = await storage.createUser({
-			username: "demo",
-			password: "password", // In a real app, this would be hashed
-		});
-	}
+	// Sessions, passport and the /api/register, /api/login, /api/logout
+	// and /api/user routes
+	const sessionParser = setupAuth(app);
+
+	// Every track and audio route requires a signed-in user
+	app.use("/api/tracks", requireAuth);
+	app.use("/api/audio", requireAuth);
 
 	/**
 	 * Route Handlers Documentation
 	 *
 	 * POST /api/tracks/upload
 	 * - Handles audio file upload
-	 * - Creates track entry in database
+	 * - Creates track entry in database with the file's own tags (title,
+	 *   artist, album, label, genre, year) and caches its cover art
 	 * - Analyzes audio for basic info (format, tempo, key)
 	 *
+	 * Every route with a track :id goes through requireTrackOwner, which
+	 * answers 404 for tracks that belong to another user.
+	 *
 	 * GET /api/tracks/:id
-	 * - Retrieves specific track information
+	 * - Retrieves specific track information with its completed versions
 	 *
 	 * GET /api/tracks
-	 * - Lists all tracks for demo user
+	 * - Lists all tracks for the signed-in user, each with its versions
 	 *
 	 * DELETE /api/tracks
-	 * - Clears all tracks and associated files
+	 * - Clears all of the signed-in user's tracks and associated files
+	 *
+	 * DELETE /api/tracks/:id
+	 * - Deletes one track, its upload and every extended version
+	 *
+	 * PATCH /api/tracks/:id/versions/:versionId
+	 * - Renames, pins or unpins a single extended version
+	 *
+	 * DELETE /api/tracks/:id/versions/:versionId
+	 * - Deletes a single extended version unless it is pinned; versions are
+	 *   named by id here and in ?versionId on the audio, download, peaks
+	 *   and beat grid routes
 	 *
 	 * POST /api/tracks/:id/process
-	 * - Processes track to create extended version
-	 * - Handles versioning and status updates
+	 * - Queues a job to create an extended version
+	 * - outputFormat (wav, aiff, flac, mp3), mp3Bitrate, bitDepth and
+	 *   sampleRate pick the rendered file's format; the upload's by default
+	 * - Rejected once the track holds the user's version limit
+	 * - Returns the job id and its position in the queue
+	 *
+	 * POST /api/tracks/:id/cancel
+	 * - Cancels the queued or running job, kills its Python process and
+	 *   removes any partial output
+	 *
+	 * GET /api/tracks/:id/artwork
+	 * - Returns a JPEG thumbnail of the upload's embedded cover art; 404
+	 *   when it has none
+	 *
+	 * GET /api/tracks/:id/peaks
+	 * - Returns cached min/max waveform peaks of the original, or of the
+	 *   extended version indexed by ?version
+	 *
+	 * GET /api/tracks/:id/beatgrid
+	 * - Returns the beat grid of the original, or of the extended version
+	 *   indexed by ?version; 404 until one has been detected
+	 *
+	 * PUT /api/tracks/:id/beatgrid
+	 * - Replaces the original's grid with a constant-tempo grid from a
+	 *   corrected BPM and first downbeat, and sets the track's BPM to it;
+	 *   later renders use the grid as is
 	 *
 	 * GET /api/tracks/:id/status
-	 * - Returns current processing status
+	 * - Returns current processing status and the latest job with its
+	 *   queue position, plus the error code and message if it failed
 	 *
 	 * GET /api/audio/:id/:type
 	 * - Streams audio files (original or extended)
 	 *
 	 * GET /api/tracks/:id/download
 	 * - Handles download of processed tracks
+	 *
+	 * GET /api/tracks/export/:file
+	 * GET /api/tracks/:id/export/:file
+	 * - DJ library file for every extended version of the user's tracks, or
+	 *   of one track, with beat grid and intro/main/outro cues: rekordbox.xml,
+	 *   traktor.nml (Traktor collection) or serato.crate (Serato crate; the
+	 *   cues and grid are in the rendered files' tags)
+	 * - ?folder= is where the user keeps downloaded versions; file
+	 *   locations point there instead of at the server's copies
 	 */
 
 	// Upload audio file
@@ -231,12 +407,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
 						.json({ message: "Access denied: Invalid file path" });
 				}
 
-				const track = await storage.createAudioTrack({
+				const createdTrack = await storage.createAudioTrack({
 					originalFilename: req.file.originalname,
 					originalPath: req.file.path,
-					userId: demoUser.id, // Using demo user for now
+					userId: req.user!.id,
 				});
 
+				// Tags and artwork are quick to read, so the track comes back with
+				// its real title and cover; files without tags keep the filename
+				const [tags, hasArtwork] = await Promise.all([
+					readSourceTags(createdTrack.originalPath).catch((err) => {
+						console.error("Error reading source tags:", err);
+						return {};
+					}),
+					generateArtwork(createdTrack.originalPath),
+				]);
+				const track =
+					(await storage.updateAudioTrack(createdTrack.id, {
+						...tags,
+						hasArtwork,
+					})) ?? createdTrack;
+
 				// Get basic audio info using Python
 				const options = {
 					mode: "text" as const,
@@ -246,6 +437,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 					args: [req.file.path],
 				};
 
+				// Waveform peaks are cached in the background for the player
+				generatePeaks(track.originalPath).catch((err) => {
+					console.error("Error computing waveform peaks:", err);
+				});
+
 				PythonShell.run("utils.py", options)
 					.then(async (results) => {
 						if (results && results.length > 0) {
@@ -256,7 +452,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
 									bitrate: audioInfo.bitrate || null,
 									duration: audioInfo.duration || null,
 									bpm: audioInfo.bpm || null,
+									tempoMap: audioInfo.tempoMap || null,
 									key: audioInfo.key || null,
+									keyTonic: audioInfo.keyTonic ?? null,
+									keyMode: audioInfo.keyMode || null,
+									keyConfidence: audioInfo.keyConfidence ?? null,
+									beatGrid: audioInfo.beatGrid || null,
+								});
+								emitTrackEvent(track.userId, {
+									type: "status",
+									trackId: track.id,
+									status: "uploaded",
 								});
 							} catch (e) {
 								console.error("Error parsing audio info:", e);
@@ -277,32 +483,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
 		}
 	);
 
-	// Get a specific track
-	app.get("/api/tracks/:id", async (req: Request, res: Response) => {
+	// Export every track's extended versions to a DJ library file. Registered
+	// before the :id routes so "export" is never taken for a track id.
+	app.get("/api/tracks/export/:file", async (req: Request, res: Response) => {
+		const exporter = libraryExports[req.params.file];
+		if (!exporter) {
+			return res.status(404).json({ message: "Unknown export format" });
+		}
+
 		try {
-			const id = parseInt(req.params.id, 10);
-			if (isNaN(id)) {
-				return res.status(400).json({ message: "Invalid track ID" });
+			const tracks = await storage.getTracksWithVersionsByUserId(req.user!.id);
+			const body = exporter.build(exportEntries(tracks, req.query.folder));
+			res.attachment(exporter.filename ?? req.params.file);
+			return res.type(exporter.contentType).send(body);
+		} catch (error) {
+			console.error("Library export error:", error);
+			return res.status(500).json({
+				message: "Error exporting library",
+				error: error instanceof Error ? error.message : "Unknown error",
+			});
+		}
+	});
+
+	// Export one track's extended versions to a DJ library file
+	app.get(
+		"/api/tracks/:id/export/:file",
+		requireTrackOwner,
+		async (req: Request, res: Response) => {
+			const exporter = libraryExports[req.params.file];
+			if (!exporter) {
+				return res.status(404).json({ message: "Unknown export format" });
 			}
 
-			const track = await storage.getAudioTrack(id);
-			if (!track) {
-				return res.status(404).json({ message: "Track not found" });
+			try {
+				const track = await storage.getTrackWithVersions(req.track!);
+				const body = exporter.build(exportEntries([track], req.query.folder));
+				res.attachment(exporter.filename ?? req.params.file);
+				return res.type(exporter.contentType).send(body);
+			} catch (error) {
+				console.error("Track export error:", error);
+				return res.status(500).json({
+					message: "Error exporting track",
+					error: error instanceof Error ? error.message : "Unknown error",
+				});
 			}
+		}
+	);
 
-			return res.json(track);
-		} catch (error) {
-			console.error("Get track error:", error);
-			return res
-				.status(500)
-				.json({ message: "Error retrieving track", error: error.message });
+	// Get a specific track
+	app.get(
+		"/api/tracks/:id",
+		requireTrackOwner,
+		async (req: Request, res: Response) => {
+			try {
+				return res.json(await storage.getTrackWithVersions(req.track!));
+			} catch (error) {
+				console.error("Get track error:", error);
+				return res
+					.status(500)
+					.json({ message: "Error retrieving track", error: error.message });
+			}
 		}
-	});
+	);
 
-	// Get all tracks for the demo user
+	// Get all tracks for the signed-in user
 	app.get("/api/tracks", async (req: Request, res: Response) => {
 		try {
-			const tracks = await storage.getAudioTracksByUserId(demoUser.id);
+			const tracks = await storage.getTracksWithVersionsByUserId(req.user!.id);
 			return res.json(tracks);
 		} catch (error) {
 			console.error("Get tracks error:", error);
@@ -315,38 +562,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
 	// Clear all tracks
 	app.delete("/api/tracks", async (req: Request, res: Response) => {
 		try {
-			const tracks = await storage.getAudioTracksByUserId(demoUser.id);
+			// Stop renders first so no worker writes into a deleted track
+			for (const track of await storage.getAudioTracksByUserId(req.user!.id)) {
+				await cancelActiveJob(track.id);
+			}
+
+			const tracks = await storage.getTracksWithVersionsByUserId(req.user!.id);
 
 			// Delete files with enhanced security validation
 			for (const track of tracks) {
-				// Validate and delete original file
-				if (
-					track.originalPath &&
-					secureFileOperation(
-						track.originalPath,
-						normalizedUploadsDir,
-						"delete"
-					)
-				) {
-					if (fs.existsSync(track.originalPath)) {
-						fs.unlinkSync(track.originalPath);
-					}
-				}
-
-				// Validate and delete extended files
-				if (track.extendedPaths && Array.isArray(track.extendedPaths)) {
-					for (const filePath of track.extendedPaths) {
-						if (secureFileOperation(filePath, normalizedResultDir, "delete")) {
-							if (fs.existsSync(filePath)) {
-								fs.unlinkSync(filePath);
-							}
-						}
-					}
-				}
+				deleteTrackFiles(track, track.versions);
 			}
 
 			// Delete from database
-			await storage.deleteAllUserTracks(demoUser.id);
+			await storage.deleteAllUserTracks(req.user!.id);
 
 			return res.json({ message: "All tracks cleared" });
 		} catch (error) {
@@ -357,321 +586,632 @@ export async function registerRoutes(app: Express): Promise<Server> {
 		}
 	});
 
-	// Process a track to create extended version
-	app.post("/api/tracks/:id/process", async (req: Request, res: Response) => {
-		try {
-			const id = parseInt(req.params.id, 10);
-			if (isNaN(id)) {
-				return res.status(400).json({ message: "Invalid track ID" });
-			}
+	// Delete a single track
+	app.delete(
+		"/api/tracks/:id",
+		requireTrackOwner,
+		async (req: Request, res: Response) => {
+			try {
+				const track = req.track!;
 
-			const track = await storage.getAudioTrack(id);
-			if (!track) {
-				return res.status(404).json({ message: "Track not found" });
-			}
+				// Stop its render if it has one; a status stuck at "processing"
+				// with no job behind it doesn't block the delete
+				await cancelActiveJob(track.id);
 
-			// Check version limit
+				deleteTrackFiles(track, await storage.getTrackVersions(track.id));
+				await storage.deleteAudioTrack(track.id);
 
-			if (track.versionCount > 3) {
-				return res.status(400).json({
-					message: "Maximum version limit (3) reached",
+				return res.json({ message: "Track deleted", trackId: track.id });
+			} catch (error) {
+				console.error("Delete track error:", error);
+				return res.status(500).json({
+					message: "Error deleting track",
+					error: error instanceof Error ? error.message : "Unknown error",
 				});
 			}
+		}
+	);
 
-			// Validate settings from request
-			const settings = processingSettingsSchema.parse(req.body);
+	// Delete a single extended version of a track
+	app.delete(
+		"/api/tracks/:id/versions/:versionId",
+		requireTrackOwner,
+		async (req: Request, res: Response) => {
+			try {
+				const track = req.track!;
 
-			// Update track status and settings
-			await storage.updateAudioTrack(id, {
-				status: track.extendedPaths?.length ? "regenerate" : "processing",
-				settings: settings,
-			});
+				const versions = await storage.getTrackVersions(track.id);
+				const version = findVersion(versions, req.params.versionId);
 
-			// Generate a filename for the extended version with security validation
-			const outputBase = path.basename(
-				track.originalFilename,
-				path.extname(track.originalFilename)
-			);
-			const fileExt = path.extname(track.originalFilename);
-			const version = track.extendedPaths?.length || 0;
-			const sanitizedBaseName = sanitizeFilename(outputBase);
-			const outputFilename = `${sanitizedBaseName}_extended_v${
-				version + 1
-			}${fileExt}`;
-			const outputPath = path.join(normalizedResultDir, outputFilename);
-
-			// Security: Validate the generated output path is within the results directory
-			if (!validateFilePath(outputPath, normalizedResultDir)) {
+				if (!version) {
+					return res
+						.status(404)
+						.json({ message: "Extended version not found" });
+				}
+
+				if (version.pinned) {
+					return res.status(409).json({
+						message: "Unpin this version before deleting it",
+					});
+				}
+
+				// Deleting a version cancels a render in progress; the pending
+				// version it would have produced goes with it
+				const cancelled = await cancelActiveJob(track.id);
+				const isProcessing =
+					track.status === "processing" || track.status === "regenerate";
+
+				deleteAudioFile(version.filePath, normalizedResultDir);
+				await storage.deleteTrackVersion(version.id);
+
+				const status =
+					versions.length <= 1
+						? "uploaded"
+						: cancelled || isProcessing
+						? "completed"
+						: track.status;
+				const updatedTrack = await storage.updateAudioTrack(track.id, {
+					status,
+				});
+				emitTrackEvent(track.userId, {
+					type: "status",
+					trackId: track.id,
+					status,
+				});
+
+				return res.json(await storage.getTrackWithVersions(updatedTrack!));
+			} catch (error) {
+				console.error("Delete version error:", error);
 				return res.status(500).json({
-					message: "Error: Generated output path is invalid",
+					message: "Error deleting version",
+					error: error instanceof Error ? error.message : "Unknown error",
 				});
 			}
+		}
+	);
 
-			// Execute the Python script for audio processing
-			const options = {
-				mode: "text" as const,
-				pythonPath: process.platform === "win32" ? "python" : "python3",
-				pythonOptions: ["-u"],
-				scriptPath: path.join(process.cwd(), "server"),
-				args: [
-					track.originalPath,
-					outputPath,
-					settings.introLength.toString(),
-					settings.outroLength.toString(),
-					settings.preserveVocals.toString(),
-					settings.beatDetection,
-				],
-			};
-
-			// Send initial response
-			res.status(202).json({
-				message: "Processing started",
-				trackId: id,
-				status: "processing",
-			});
+	// Rename, pin or unpin a single extended version
+	app.patch(
+		"/api/tracks/:id/versions/:versionId",
+		requireTrackOwner,
+		async (req: Request, res: Response) => {
+			try {
+				const track = req.track!;
 
-			// Start processing in background
-			PythonShell.run("audioProcessor.py", options)
-				.then(async (results) => {
-					console.log("Processing complete:", results);
-
-					// Get audio info of the processed file
-					const audioInfoOptions = {
-						mode: "text" as const,
-						pythonPath: process.platform === "win32" ? "python" : "python3",
-						pythonOptions: ["-u"],
-						scriptPath: path.join(process.cwd(), "server"),
-						args: [outputPath],
-					};
+				const parsed = updateTrackVersionSchema.safeParse(req.body);
+				if (!parsed.success) {
+					return res.status(400).json({
+						message: "Invalid version update",
+						errors: parsed.error.flatten().fieldErrors,
+					});
+				}
 
-					return PythonShell.run("utils.py", audioInfoOptions).then(
-						async (infoResults) => {
-							let extendedDuration = null;
-
-							if (infoResults && infoResults.length > 0) {
-								try {
-									const audioInfo = JSON.parse(infoResults[0]);
-									console.log("Extended audio info:", audioInfo);
-									extendedDuration = audioInfo.duration || null;
-								} catch (e) {
-									console.error("Error parsing extended audio info:", e);
-								}
-							}
+				const versions = await storage.getTrackVersions(track.id);
+				const version = findVersion(versions, req.params.versionId);
 
-							// Update track with completed status and add new version
-							const track = await storage.getAudioTrack(id);
-							const currentPaths = track?.extendedPaths || [];
-							const currentDurations = track?.extendedDurations || [];
-							let extendedPaths = [...currentPaths, outputPath];
-							console.log("extendedPaths:", extendedPaths);
-
-							return storage.updateAudioTrack(id, {
-								status: "completed",
-								extendedPaths: extendedPaths,
-								extendedDurations: [...currentDurations, extendedDuration],
-								versionCount: (track.versionCount || 1) + 1,
-							});
-						}
-					);
-				})
-				.catch(async (error) => {
-					console.error("Processing error:", error);
-					await storage.updateAudioTrack(id, {
-						status: "error",
-					});
+				if (!version) {
+					return res
+						.status(404)
+						.json({ message: "Extended version not found" });
+				}
+
+				const { label, pinned } = parsed.data;
+				await storage.updateTrackVersion(version.id, {
+					// An empty label falls back to "Version N"
+					...(label !== undefined && { label: label || null }),
+					...(pinned !== undefined && { pinned }),
 				});
-		} catch (error) {
-			console.error("Process track error:", error);
-			return res
-				.status(500)
-				.json({ message: "Error processing track", error: error.message });
-		}
-	});
 
-	// Get processing status
-	app.get("/api/tracks/:id/status", async (req: Request, res: Response) => {
-		try {
-			const id = parseInt(req.params.id, 10);
-			if (isNaN(id)) {
-				return res.status(400).json({ message: "Invalid track ID" });
+				return res.json(await storage.getTrackWithVersions(track));
+			} catch (error) {
+				console.error("Update version error:", error);
+				return res.status(500).json({
+					message: "Error updating version",
+					error: error instanceof Error ? error.message : "Unknown error",
+				});
 			}
+		}
+	);
 
-			const track = await storage.getAudioTrack(id);
-			if (!track) {
-				return res.status(404).json({ message: "Track not found" });
-			}
+	// Process a track to create extended version
+	app.post(
+		"/api/tracks/:id/process",
+		requireTrackOwner,
+		async (req: Request, res: Response) => {
+			try {
+				const id = req.track!.id;
+				const track = req.track!;
+				const versions = await storage.getTrackVersions(id);
+
+				// Check version limit
+				const versionLimit = getVersionLimit(req.user!);
+				if (versions.length >= versionLimit) {
+					return res.status(400).json({
+						message: `Maximum version limit (${versionLimit}) reached. Delete a version to free a slot.`,
+						versionLimit,
+					});
+				}
 
-			return res.json({ status: track.status });
-		} catch (error) {
-			console.error("Get status error:", error);
-			return res
-				.status(500)
-				.json({ message: "Error retrieving status", error: error.message });
-		}
-	});
+				// Validate settings from request; renders keep the upload's format
+				// unless the settings name another
+				const parsedSettings = processingSettingsSchema.safeParse({
+					outputFormat: uploadFormat(track.originalFilename),
+					...req.body,
+				});
+				if (!parsedSettings.success) {
+					return res.status(400).json({
+						message: "Invalid processing settings",
+						errors: parsedSettings.error.flatten().fieldErrors,
+					});
+				}
+				const settings = parsedSettings.data;
+
+				// Only one render per track may be queued or running at a time
+				const activeJob = await storage.getActiveJobForTrack(id);
+				if (activeJob) {
+					return res.status(409).json({
+						message: "This track is already queued for processing",
+						jobId: activeJob.id,
+					});
+				}
 
-	// Serve audio files
-	app.get("/api/audio/:id/:type", async (req: Request, res: Response) => {
-		try {
-			const id = parseInt(req.params.id, 10);
-			if (isNaN(id)) {
-				return res.status(400).json({ message: "Invalid track ID" });
-			}
+				// Generate a filename for the extended version with security validation
+				const outputBase = path.basename(
+					track.originalFilename,
+					path.extname(track.originalFilename)
+				);
+				const fileExt = `.${settings.outputFormat}`;
+				const sanitizedBaseName = sanitizeFilename(outputBase);
+
+				// Number after the newest version, skipping any file already on disk
+				let version = versions.reduce(
+					(max, v) => Math.max(max, v.versionNumber),
+					0
+				);
+				let outputPath: string;
+				do {
+					version++;
+					outputPath = path.join(
+						normalizedResultDir,
+						`${sanitizedBaseName}_extended_v${version}${fileExt}`
+					);
+				} while (fs.existsSync(outputPath));
 
-			const type = req.params.type;
-			if (type !== "original" && type !== "extended") {
-				return res.status(400).json({ message: "Invalid audio type" });
-			}
+				// Security: Validate the generated output path is within the results directory
+				if (!validateFilePath(outputPath, normalizedResultDir)) {
+					return res.status(500).json({
+						message: "Error: Generated output path is invalid",
+					});
+				}
 
-			const track = await storage.getAudioTrack(id);
-			if (!track) {
-				return res.status(404).json({ message: "Track not found" });
-			}
+				// Update track status and settings
+				const status = versions.length > 0 ? "regenerate" : "processing";
+				await storage.updateAudioTrack(id, { status, settings });
 
-			let filePath = track.originalPath;
-			if (type === "extended") {
-				const version = parseInt(req.query.version as string) || 0;
-				const extendedPaths = Array.isArray(track.extendedPaths)
-					? track.extendedPaths
-					: [];
-				filePath = extendedPaths[version];
-			}
+				// The worker picks the job up in FIFO order once a slot is free
+				const job = await processingQueue.enqueue(
+					track,
+					settings,
+					outputPath,
+					version
+				);
+				const queuePosition = await storage.getQueuePosition(job);
+				emitTrackEvent(track.userId, {
+					type: "status",
+					trackId: id,
+					status,
+					jobId: job.id,
+					queuePosition,
+				});
 
-			if (!filePath) {
+				return res.status(202).json({
+					message: "Processing queued",
+					trackId: id,
+					status,
+					jobId: job.id,
+					queuePosition,
+				});
+			} catch (error) {
+				console.error("Process track error:", error);
 				return res
-					.status(404)
-					.json({ message: `${type} audio file not found` });
+					.status(500)
+					.json({ message: "Error processing track", error: error.message });
 			}
+		}
+	);
 
-			// Security: Validate file path contains only safe characters and extensions
-			const allowedExtensions = [".mp3", ".wav", ".flac", ".aiff"];
-			const fileExtension = path.extname(filePath).toLowerCase();
-			if (!allowedExtensions.includes(fileExtension)) {
-				return res.status(400).json({ message: "Invalid file type" });
-			}
+	// Cancel processing
+	app.post(
+		"/api/tracks/:id/cancel",
+		requireTrackOwner,
+		async (req: Request, res: Response) => {
+			try {
+				const track = req.track!;
+				const job = await storage.getActiveJobForTrack(track.id);
+				if (!job) {
+					return res
+						.status(409)
+						.json({ message: "No processing job to cancel for this track" });
+				}
 
-			// Security: Enhanced path validation with canonicalization
-			const isUploadFile =
-				validateFilePath(filePath, normalizedUploadsDir) &&
-				secureFileOperation(filePath, normalizedUploadsDir, "read");
-			const isResultFile =
-				validateFilePath(filePath, normalizedResultDir) &&
-				secureFileOperation(filePath, normalizedResultDir, "read");
+				await processingQueue.cancel(job);
 
-			if (!isUploadFile && !isResultFile) {
-				return res
-					.status(403)
-					.json({ message: "Access denied: Invalid file path" });
-			}
+				// Remove whatever the killed process managed to write
+				secureDeleteFile(job.outputPath, normalizedResultDir);
 
-			if (!fs.existsSync(filePath)) {
-				return res
-					.status(404)
-					.json({ message: "Audio file not found on disk" });
-			}
+				// Fall back to the last consistent state of the track
+				const versions = await storage.getTrackVersions(track.id);
+				const status = versions.length > 0 ? "completed" : "uploaded";
+				await storage.updateAudioTrack(track.id, { status });
+				emitTrackEvent(track.userId, {
+					type: "status",
+					trackId: track.id,
+					status,
+				});
 
-			const stat = fs.statSync(filePath);
-			const fileSize = stat.size;
-			const range = req.headers.range;
-
-			if (range) {
-				const parts = range.replace(/bytes=/, "").split("-");
-				const start = parseInt(parts[0], 10);
-				const end = parts[1] ? parseInt(parts[1], 10) : fileSize - 1;
-				const chunksize = end - start + 1;
-				const file = fs.createReadStream(filePath, { start, end });
-				const head = {
-					"Content-Range": `bytes ${start}-${end}/${fileSize}`,
-					"Accept-Ranges": "bytes",
-					"Content-Length": chunksize,
-					"Content-Type": "audio/mpeg",
-				};
-				res.writeHead(206, head);
-				file.pipe(res);
-			} else {
-				const head = {
-					"Content-Length": fileSize,
-					"Content-Type": "audio/mpeg",
-				};
-				res.writeHead(200, head);
-				fs.createReadStream(filePath).pipe(res);
+				return res.json({
+					message: "Processing cancelled",
+					trackId: track.id,
+					status,
+				});
+			} catch (error) {
+				console.error("Cancel processing error:", error);
+				return res.status(500).json({
+					message: "Error cancelling processing",
+					error: error instanceof Error ? error.message : "Unknown error",
+				});
 			}
-		} catch (error) {
-			console.error("Stream audio error:", error);
-			return res.status(500).json({
-				message: "Error streaming audio",
-				error: error instanceof Error ? error.message : "Unknown error",
-			});
 		}
-	});
+	);
 
-	// Download extended audio
-	app.get("/api/tracks/:id/download", async (req: Request, res: Response) => {
-		try {
-			const id = parseInt(req.params.id, 10);
-			if (isNaN(id)) {
-				return res.status(400).json({ message: "Invalid track ID" });
+	// Get the cover art thumbnail cached at upload
+	app.get(
+		"/api/tracks/:id/artwork",
+		requireTrackOwner,
+		async (req: Request, res: Response) => {
+			try {
+				const track = req.track!;
+				const artworkPath = path.resolve(artworkPathFor(track.originalPath));
+
+				if (
+					!track.hasArtwork ||
+					!validateFilePath(artworkPath, normalizedUploadsDir) ||
+					!fs.existsSync(artworkPath)
+				) {
+					return res.status(404).json({ message: "Artwork not found" });
+				}
+
+				// The artwork never changes once the track exists
+				res.set("Cache-Control", "private, max-age=86400");
+				return res.type("image/jpeg").sendFile(artworkPath);
+			} catch (error) {
+				console.error("Artwork error:", error);
+				return res.status(500).json({
+					message: "Error retrieving artwork",
+					error: error instanceof Error ? error.message : "Unknown error",
+				});
 			}
+		}
+	);
+
+	// Get waveform peaks of the original or of one extended version
+	app.get(
+		"/api/tracks/:id/peaks",
+		requireTrackOwner,
+		async (req: Request, res: Response) => {
+			try {
+				const track = req.track!;
+
+				let filePath = track.originalPath;
+				let baseDirectory = normalizedUploadsDir;
+				const versionId = req.query.versionId as string | undefined;
+				if (versionId !== undefined) {
+					const versions = await storage.getTrackVersions(track.id);
+					const version = findVersion(versions, versionId);
+					if (!version) {
+						return res
+							.status(404)
+							.json({ message: "Extended version not found" });
+					}
+					filePath = version.filePath;
+					baseDirectory = normalizedResultDir;
+				}
+
+				if (
+					!filePath ||
+					!validateFilePath(filePath, baseDirectory) ||
+					!fs.existsSync(filePath)
+				) {
+					return res.status(404).json({ message: "Audio file not found" });
+				}
 
-			const track = await storage.getAudioTrack(id);
-			if (!track) {
-				return res.status(404).json({ message: "Track not found" });
+				return res.json(await getPeaks(filePath));
+			} catch (error) {
+				console.error("Waveform peaks error:", error);
+				return res.status(500).json({
+					message: "Error computing waveform peaks",
+					error: error instanceof Error ? error.message : "Unknown error",
+				});
 			}
+		}
+	);
 
-			const version = parseInt(req.query.version as string) || 0;
-			const extendedPaths = Array.isArray(track.extendedPaths)
-				? track.extendedPaths
-				: [];
+	// Get the beat grid of the original or of one extended version
+	app.get(
+		"/api/tracks/:id/beatgrid",
+		requireTrackOwner,
+		async (req: Request, res: Response) => {
+			try {
+				const track = req.track!;
+
+				let beatGrid = track.beatGrid;
+				const versionId = req.query.versionId as string | undefined;
+				if (versionId !== undefined) {
+					const versions = await storage.getTrackVersions(track.id);
+					const version = findVersion(versions, versionId);
+					if (!version) {
+						return res
+							.status(404)
+							.json({ message: "Extended version not found" });
+					}
+					beatGrid = version.beatGrid;
+				}
+
+				if (!beatGrid) {
+					return res
+						.status(404)
+						.json({ message: "No beat grid has been detected yet" });
+				}
 
-			if (version >= extendedPaths.length || !extendedPaths[version]) {
-				return res.status(404).json({ message: "Extended version not found" });
+				return res.json(beatGrid);
+			} catch (error) {
+				console.error("Beat grid error:", error);
+				return res.status(500).json({
+					message: "Error retrieving beat grid",
+					error: error instanceof Error ? error.message : "Unknown error",
+				});
 			}
+		}
+	);
 
-			const filePath = extendedPaths[version];
+	// Save a manually corrected beat grid for the original
+	app.put(
+		"/api/tracks/:id/beatgrid",
+		requireTrackOwner,
+		async (req: Request, res: Response) => {
+			try {
+				const track = req.track!;
+
+				const parsed = beatGridCorrectionSchema.safeParse(req.body);
+				if (!parsed.success) {
+					return res.status(400).json({
+						message: "Invalid beat grid",
+						errors: parsed.error.flatten().fieldErrors,
+					});
+				}
 
-			// Security: Validate file path contains only safe characters and extensions
-			const allowedExtensions = [".mp3", ".wav", ".flac", ".aiff"];
-			const fileExtension = path.extname(filePath).toLowerCase();
-			if (!allowedExtensions.includes(fileExtension)) {
-				return res.status(400).json({ message: "Invalid file type" });
+				const duration =
+					track.duration ??
+					track.beatGrid?.beats[track.beatGrid.beats.length - 1];
+				if (!duration) {
+					return res.status(409).json({
+						message: "The track hasn't been analysed yet",
+					});
+				}
+
+				const { bpm, firstDownbeat } = parsed.data;
+				// A corrected grid is constant-tempo, so it replaces any tempo map
+				const updatedTrack = await storage.updateAudioTrack(track.id, {
+					beatGrid: buildBeatGrid(bpm, firstDownbeat, duration),
+					bpm,
+					tempoMap: null,
+				});
+
+				return res.json(await storage.getTrackWithVersions(updatedTrack!));
+			} catch (error) {
+				console.error("Update beat grid error:", error);
+				return res.status(500).json({
+					message: "Error saving beat grid",
+					error: error instanceof Error ? error.message : "Unknown error",
+				});
 			}
+		}
+	);
 
-			// Security: Enhanced path validation with canonicalization
-			if (
-				!validateFilePath(filePath, normalizedResultDir) ||
-				!secureFileOperation(filePath, normalizedResultDir, "download")
-			) {
+	// Get processing status
+	app.get(
+		"/api/tracks/:id/status",
+		requireTrackOwner,
+		async (req: Request, res: Response) => {
+			try {
+				const track = req.track!;
+				const job = await storage.getLatestJobForTrack(track.id);
+
+				return res.json({
+					status: track.status,
+					job: job
+						? {
+								id: job.id,
+								status: job.status,
+								stage: job.stage,
+								progress: job.progress,
+								attempts: job.attempts,
+								maxAttempts: job.maxAttempts,
+								queuePosition: await storage.getQueuePosition(job),
+								errorCode: job.errorCode,
+								errorMessage: job.lastError,
+						  }
+						: null,
+				});
+			} catch (error) {
+				console.error("Get status error:", error);
 				return res
-					.status(403)
-					.json({ message: "Access denied: Invalid file path" });
+					.status(500)
+					.json({ message: "Error retrieving status", error: error.message });
 			}
+		}
+	);
 
-			if (!fs.existsSync(filePath)) {
-				return res
-					.status(404)
-					.json({ message: "Extended audio file not found on disk" });
+	// Serve audio files
+	app.get(
+		"/api/audio/:id/:type",
+		requireTrackOwner,
+		async (req: Request, res: Response) => {
+			try {
+				const type = req.params.type;
+				if (type !== "original" && type !== "extended") {
+					return res.status(400).json({ message: "Invalid audio type" });
+				}
+
+				const track = req.track!;
+
+				let filePath: string | undefined = track.originalPath;
+				if (type === "extended") {
+					const versions = await storage.getTrackVersions(track.id);
+					filePath = findVersion(
+						versions,
+						req.query.versionId as string | undefined
+					)?.filePath;
+				}
+
+				if (!filePath) {
+					return res
+						.status(404)
+						.json({ message: `${type} audio file not found` });
+				}
+
+				// Security: Validate file path contains only safe characters and extensions
+				const allowedExtensions = [".mp3", ".wav", ".flac", ".aiff"];
+				const fileExtension = path.extname(filePath).toLowerCase();
+				if (!allowedExtensions.includes(fileExtension)) {
+					return res.status(400).json({ message: "Invalid file type" });
+				}
+
+				// Security: Enhanced path validation with canonicalization
+				const isUploadFile =
+					validateFilePath(filePath, normalizedUploadsDir) &&
+					secureFileOperation(filePath, normalizedUploadsDir, "read");
+				const isResultFile =
+					validateFilePath(filePath, normalizedResultDir) &&
+					secureFileOperation(filePath, normalizedResultDir, "read");
+
+				if (!isUploadFile && !isResultFile) {
+					return res
+						.status(403)
+						.json({ message: "Access denied: Invalid file path" });
+				}
+
+				if (!fs.existsSync(filePath)) {
+					return res
+						.status(404)
+						.json({ message: "Audio file not found on disk" });
+				}
+
+				const stat = fs.statSync(filePath);
+				const fileSize = stat.size;
+				const range = req.headers.range;
+
+				if (range) {
+					const parts = range.replace(/bytes=/, "").split("-");
+					const start = parseInt(parts[0], 10);
+					const end = parts[1] ? parseInt(parts[1], 10) : fileSize - 1;
+					const chunksize = end - start + 1;
+					const file = fs.createReadStream(filePath, { start, end });
+					const head = {
+						"Content-Range": `bytes ${start}-${end}/${fileSize}`,
+						"Accept-Ranges": "bytes",
+						"Content-Length": chunksize,
+						"Content-Type": audioContentTypes[fileExtension],
+					};
+					res.writeHead(206, head);
+					file.pipe(res);
+				} else {
+					const head = {
+						"Content-Length": fileSize,
+						"Content-Type": audioContentTypes[fileExtension],
+					};
+					res.writeHead(200, head);
+					fs.createReadStream(filePath).pipe(res);
+				}
+			} catch (error) {
+				console.error("Stream audio error:", error);
+				return res.status(500).json({
+					message: "Error streaming audio",
+					error: error instanceof Error ? error.message : "Unknown error",
+				});
 			}
+		}
+	);
 
-			// Extract original filename without extension
-			const originalNameWithoutExt = path.basename(
-				track.originalFilename,
-				path.extname(track.originalFilename)
-			);
+	// Download extended audio
+	app.get(
+		"/api/tracks/:id/download",
+		requireTrackOwner,
+		async (req: Request, res: Response) => {
+			try {
+				const track = req.track!;
+				const versions = await storage.getTrackVersions(track.id);
+				const version = findVersion(
+					versions,
+					req.query.versionId as string | undefined
+				);
+
+				if (!version) {
+					return res
+						.status(404)
+						.json({ message: "Extended version not found" });
+				}
 
-			// Create download filename with version number
-			const downloadFilename = `${originalNameWithoutExt}_extended_v${
-				version + 1
-			}${path.extname(track.originalFilename)}`;
+				const filePath = version.filePath;
 
-			res.download(filePath, downloadFilename);
-		} catch (error) {
-			console.error("Download error:", error);
-			return res.status(500).json({
-				message: "Error downloading file",
-				error: error instanceof Error ? error.message : "Unknown error",
-			});
+				// Security: Validate file path contains only safe characters and extensions
+				const allowedExtensions = [".mp3", ".wav", ".flac", ".aiff"];
+				const fileExtension = path.extname(filePath).toLowerCase();
+				if (!allowedExtensions.includes(fileExtension)) {
+					return res.status(400).json({ message: "Invalid file type" });
+				}
+
+				// Security: Enhanced path validation with canonicalization
+				if (
+					!validateFilePath(filePath, normalizedResultDir) ||
+					!secureFileOperation(filePath, normalizedResultDir, "download")
+				) {
+					return res
+						.status(403)
+						.json({ message: "Access denied: Invalid file path" });
+				}
+
+				if (!fs.existsSync(filePath)) {
+					return res
+						.status(404)
+						.json({ message: "Extended audio file not found on disk" });
+				}
+
+				res.type(audioContentTypes[fileExtension]);
+				res.download(filePath, downloadFilenameFor(track, version));
+			} catch (error) {
+				console.error("Download error:", error);
+				return res.status(500).json({
+					message: "Error downloading file",
+					error: error instanceof Error ? error.message : "Unknown error",
+				});
+			}
 		}
-	});
+	);
+
+	// Push track status events to signed-in clients on /ws
+	setupWebSocket(httpServer, sessionParser);
+
+	// Move versions from the legacy per-track arrays into track_versions
+	const migrated = await storage.backfillTrackVersions();
+	if (migrated > 0) {
+		console.log(
+			`Moved extended versions of ${migrated} track(s) to track_versions`
+		);
+	}
+
+	// Recover interrupted jobs and start the processing worker loop
+	await processingQueue.start();
 
 	return httpServer;
 }
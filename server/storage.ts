@@ -5,13 +5,24 @@ import { Pool } from "pg";
 import {
 	users,
 	audioTracks,
+	processingJobs,
+	trackVersions,
+	processingSettingsSchema,
 	type User,
 	type InsertUser,
+	type UpdateUser,
 	type AudioTrack,
 	type InsertAudioTrack,
 	type UpdateAudioTrack,
+	type TrackVersion,
+	type InsertTrackVersion,
+	type TrackWithVersions,
+	type ProcessingJob,
+	type InsertProcessingJob,
 } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { eq, and, lt, inArray, desc, count, sql } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
 
 // Ensure DATABASE_URL is defined
 if (!process.env.DATABASE_URL) {
@@ -24,10 +35,14 @@ const pool = new Pool({
 
 const db = drizzle(pool);
 
+const PostgresSessionStore = connectPg(session);
+
 export interface IStorage {
+	sessionStore: session.Store;
 	getUser(id: number): Promise<User | undefined>;
 	getUserByUsername(username: string): Promise<User | undefined>;
 	createUser(user: InsertUser): Promise<User>;
+	updateUser(id: number, update: UpdateUser): Promise<User | undefined>;
 	getAudioTrack(id: number): Promise<AudioTrack | undefined>;
 	createAudioTrack(track: InsertAudioTrack): Promise<AudioTrack>;
 	updateAudioTrack(
@@ -35,9 +50,50 @@ export interface IStorage {
 		update: UpdateAudioTrack
 	): Promise<AudioTrack | undefined>;
 	getAudioTracksByUserId(userId: number): Promise<AudioTrack[]>;
+	deleteAudioTrack(id: number): Promise<void>;
+	deleteAllUserTracks(userId: number): Promise<void>;
+	getTrackWithVersions(track: AudioTrack): Promise<TrackWithVersions>;
+	getTracksWithVersionsByUserId(userId: number): Promise<TrackWithVersions[]>;
+	getTrackVersions(trackId: number): Promise<TrackVersion[]>;
+	getTrackVersion(id: number): Promise<TrackVersion | undefined>;
+	createTrackVersion(version: InsertTrackVersion): Promise<TrackVersion>;
+	updateTrackVersion(
+		id: number,
+		update: Partial<TrackVersion>
+	): Promise<TrackVersion | undefined>;
+	deleteTrackVersion(id: number): Promise<void>;
+	backfillTrackVersions(): Promise<number>;
+	createProcessingJob(job: InsertProcessingJob): Promise<ProcessingJob>;
+	getProcessingJob(id: number): Promise<ProcessingJob | undefined>;
+	getActiveJobForTrack(trackId: number): Promise<ProcessingJob | undefined>;
+	getLatestJobForTrack(trackId: number): Promise<ProcessingJob | undefined>;
+	updateProcessingJob(
+		id: number,
+		update: Partial<ProcessingJob>
+	): Promise<ProcessingJob | undefined>;
+	updateRunningProcessingJob(
+		id: number,
+		update: Partial<ProcessingJob>
+	): Promise<ProcessingJob | undefined>;
+	claimNextProcessingJob(): Promise<ProcessingJob | undefined>;
+	getQueuePosition(job: ProcessingJob): Promise<number>;
+	getQueuedJobs(): Promise<ProcessingJob[]>;
+	requeueInterruptedJobs(): Promise<{
+		requeued: ProcessingJob[];
+		exhausted: ProcessingJob[];
+	}>;
 }
 
 export class PostgresStorage implements IStorage {
+	sessionStore: session.Store;
+
+	constructor() {
+		this.sessionStore = new PostgresSessionStore({
+			pool,
+			createTableIfMissing: true,
+		});
+	}
+
 	async getUser(id: number): Promise<User | undefined> {
 		const result = await db.select().from(users).where(eq(users.id, id));
 		return result[0];
@@ -56,6 +112,15 @@ export class PostgresStorage implements IStorage {
 		return result[0];
 	}
 
+	async updateUser(id: number, update: UpdateUser): Promise<User | undefined> {
+		const result = await db
+			.update(users)
+			.set(update)
+			.where(eq(users.id, id))
+			.returning();
+		return result[0];
+	}
+
 	async getAudioTrack(id: number): Promise<AudioTrack | undefined> {
 		const result = await db
 			.select()
@@ -85,9 +150,289 @@ export class PostgresStorage implements IStorage {
 		return db.select().from(audioTracks).where(eq(audioTracks.userId, userId));
 	}
 
+	async deleteAudioTrack(id: number): Promise<void> {
+		await db.delete(audioTracks).where(eq(audioTracks.id, id));
+	}
+
 	async deleteAllUserTracks(userId: number): Promise<void> {
 		await db.delete(audioTracks).where(eq(audioTracks.userId, userId));
 	}
+
+	async getTrackWithVersions(track: AudioTrack): Promise<TrackWithVersions> {
+		return { ...track, versions: await this.getTrackVersions(track.id) };
+	}
+
+	async getTracksWithVersionsByUserId(
+		userId: number
+	): Promise<TrackWithVersions[]> {
+		const tracks = await this.getAudioTracksByUserId(userId);
+		if (tracks.length === 0) {
+			return [];
+		}
+
+		const versions = await db
+			.select()
+			.from(trackVersions)
+			.where(
+				and(
+					inArray(
+						trackVersions.trackId,
+						tracks.map((track) => track.id)
+					),
+					eq(trackVersions.status, "completed")
+				)
+			)
+			.orderBy(trackVersions.versionNumber);
+
+		return tracks.map((track) => ({
+			...track,
+			versions: versions.filter((version) => version.trackId === track.id),
+		}));
+	}
+
+	// Completed versions in render order; pending renders are left out
+	async getTrackVersions(trackId: number): Promise<TrackVersion[]> {
+		return db
+			.select()
+			.from(trackVersions)
+			.where(
+				and(
+					eq(trackVersions.trackId, trackId),
+					eq(trackVersions.status, "completed")
+				)
+			)
+			.orderBy(trackVersions.versionNumber);
+	}
+
+	async getTrackVersion(id: number): Promise<TrackVersion | undefined> {
+		const result = await db
+			.select()
+			.from(trackVersions)
+			.where(eq(trackVersions.id, id));
+		return result[0];
+	}
+
+	async createTrackVersion(version: InsertTrackVersion): Promise<TrackVersion> {
+		const result = await db.insert(trackVersions).values(version).returning();
+		return result[0];
+	}
+
+	async updateTrackVersion(
+		id: number,
+		update: Partial<TrackVersion>
+	): Promise<TrackVersion | undefined> {
+		const result = await db
+			.update(trackVersions)
+			.set(update)
+			.where(eq(trackVersions.id, id))
+			.returning();
+		return result[0];
+	}
+
+	async deleteTrackVersion(id: number): Promise<void> {
+		await db.delete(trackVersions).where(eq(trackVersions.id, id));
+	}
+
+	/**
+	 * Move versions stored in the legacy extendedPaths/extendedDurations
+	 * arrays into track_versions, using the track's settings for each (or
+	 * the defaults if it never recorded any).
+	 * Returns the number of tracks migrated; safe to run on every start.
+	 */
+	async backfillTrackVersions(): Promise<number> {
+		const tracks = await db
+			.select()
+			.from(audioTracks)
+			.where(sql`jsonb_array_length(${audioTracks.extendedPaths}) > 0`);
+
+		for (const track of tracks) {
+			const paths = track.extendedPaths ?? [];
+			const durations = track.extendedDurations ?? [];
+			const markers = track.extendedMarkers ?? [];
+
+			// Each version's own settings when recorded; older entries predate
+			// some settings, so they are parsed again to fill in defaults
+			const fallback = track.settings ?? processingSettingsSchema.parse({});
+			const settingsAt = (i: number) => {
+				const parsed = processingSettingsSchema.safeParse(
+					track.extendedSettings?.[i]
+				);
+				return parsed.success ? parsed.data : fallback;
+			};
+
+			await db.transaction(async (tx) => {
+				await tx.insert(trackVersions).values(
+					paths.map((filePath, i) => ({
+						trackId: track.id,
+						// Deleted versions leave gaps, so prefer the number in the filename
+						versionNumber:
+							parseInt(
+								filePath.match(/_extended_v(\d+)\.\w+$/)?.[1] ?? "",
+								10
+							) || i + 1,
+						filePath,
+						duration: durations[i] ?? null,
+						status: "completed",
+						settings: settingsAt(i),
+						introEnd: markers[i]?.introEnd ?? null,
+						outroStart: markers[i]?.outroStart ?? null,
+					}))
+				);
+				await tx
+					.update(audioTracks)
+					.set({
+						extendedPaths: [],
+						extendedDurations: [],
+						extendedSettings: [],
+						extendedMarkers: [],
+					})
+					.where(eq(audioTracks.id, track.id));
+			});
+		}
+
+		return tracks.length;
+	}
+
+	async createProcessingJob(job: InsertProcessingJob): Promise<ProcessingJob> {
+		const result = await db.insert(processingJobs).values(job).returning();
+		return result[0];
+	}
+
+	async getProcessingJob(id: number): Promise<ProcessingJob | undefined> {
+		const result = await db
+			.select()
+			.from(processingJobs)
+			.where(eq(processingJobs.id, id));
+		return result[0];
+	}
+
+	async getActiveJobForTrack(
+		trackId: number
+	): Promise<ProcessingJob | undefined> {
+		const result = await db
+			.select()
+			.from(processingJobs)
+			.where(
+				and(
+					eq(processingJobs.trackId, trackId),
+					inArray(processingJobs.status, ["queued", "running"])
+				)
+			)
+			.orderBy(desc(processingJobs.id))
+			.limit(1);
+		return result[0];
+	}
+
+	async getLatestJobForTrack(
+		trackId: number
+	): Promise<ProcessingJob | undefined> {
+		const result = await db
+			.select()
+			.from(processingJobs)
+			.where(eq(processingJobs.trackId, trackId))
+			.orderBy(desc(processingJobs.id))
+			.limit(1);
+		return result[0];
+	}
+
+	async updateProcessingJob(
+		id: number,
+		update: Partial<ProcessingJob>
+	): Promise<ProcessingJob | undefined> {
+		const result = await db
+			.update(processingJobs)
+			.set(update)
+			.where(eq(processingJobs.id, id))
+			.returning();
+		return result[0];
+	}
+
+	// Update a job only while it is still running; undefined once it was
+	// cancelled (or otherwise finished) in the meantime
+	async updateRunningProcessingJob(
+		id: number,
+		update: Partial<ProcessingJob>
+	): Promise<ProcessingJob | undefined> {
+		const result = await db
+			.update(processingJobs)
+			.set(update)
+			.where(
+				and(eq(processingJobs.id, id), eq(processingJobs.status, "running"))
+			)
+			.returning();
+		return result[0];
+	}
+
+	// Atomically move the oldest runnable job to "running" (FIFO by id)
+	async claimNextProcessingJob(): Promise<ProcessingJob | undefined> {
+		const result = await db
+			.update(processingJobs)
+			.set({
+				status: "running",
+				startedAt: new Date(),
+				attempts: sql`${processingJobs.attempts} + 1`,
+			})
+			.where(
+				eq(
+					processingJobs.id,
+					sql`(select ${processingJobs.id} from ${processingJobs}
+						where ${processingJobs.status} = 'queued'
+						and ${processingJobs.runAfter} <= now()
+						order by ${processingJobs.id}
+						limit 1
+						for update skip locked)`
+				)
+			)
+			.returning();
+		return result[0];
+	}
+
+	// 1-based position among queued jobs; 0 once the job has left the queue
+	async getQueuePosition(job: ProcessingJob): Promise<number> {
+		if (job.status !== "queued") {
+			return 0;
+		}
+		const result = await db
+			.select({ ahead: count() })
+			.from(processingJobs)
+			.where(
+				and(eq(processingJobs.status, "queued"), lt(processingJobs.id, job.id))
+			);
+		return result[0].ahead + 1;
+	}
+
+	async getQueuedJobs(): Promise<ProcessingJob[]> {
+		return db
+			.select()
+			.from(processingJobs)
+			.where(eq(processingJobs.status, "queued"))
+			.orderBy(processingJobs.id);
+	}
+
+	// Jobs left "running" by a crash or restart go back to the queue. The
+	// interrupted run counted as an attempt when it was claimed, so jobs that
+	// were on their last attempt are returned as exhausted instead, still
+	// "running", for the queue to fail.
+	async requeueInterruptedJobs(): Promise<{
+		requeued: ProcessingJob[];
+		exhausted: ProcessingJob[];
+	}> {
+		const requeued = await db
+			.update(processingJobs)
+			.set({ status: "queued", runAfter: new Date() })
+			.where(
+				and(
+					eq(processingJobs.status, "running"),
+					lt(processingJobs.attempts, processingJobs.maxAttempts)
+				)
+			)
+			.returning();
+		const exhausted = await db
+			.select()
+			.from(processingJobs)
+			.where(eq(processingJobs.status, "running"));
+		return { requeued, exhausted };
+	}
 }
 
 export const storage = new PostgresStorage();
@@ -0,0 +1,305 @@
+/** @format */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { parseFile } from "music-metadata";
+import { afterAll, describe, expect, it, vi } from "vitest";
+import type {
+	AudioTrack,
+	ProcessingSettings,
+	TrackVersion,
+} from "@shared/schema";
+import { tagRenderedFile } from "./tagging";
+
+// Tags ffprobe would read from the upload; only these two aren't stored
+vi.mock("./ffmpeg", async (importOriginal) => ({
+	...(await importOriginal<typeof import("./ffmpeg")>()),
+	readFormatTags: vi.fn(async () => ({
+		album_artist: "Various Artists",
+		composer: "B. Knowles",
+	})),
+}));
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "tagging-test-"));
+afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const track = {
+	id: 1,
+	originalFilename: "run_it.wav",
+	originalPath: path.join(dir, "run_it.wav"),
+	title: "Run It",
+	artist: "Beyoncé",
+	album: "Nights",
+	label: "Deep Cuts",
+	genre: "House",
+	year: 2024,
+	bpm: 124,
+	tempoMap: null,
+	keyTonic: 9,
+	keyMode: "minor",
+	keyConfidence: 0.8,
+	key: "A minor",
+} as AudioTrack;
+
+function versionAt(filePath: string): TrackVersion {
+	return {
+		id: 11,
+		trackId: 1,
+		versionNumber: 2,
+		filePath,
+		duration: 240,
+		settings: { introLength: 16, outroLength: 16 } as ProcessingSettings,
+		label: null,
+		introEnd: 31,
+		outroStart: 210,
+		beatGrid: null,
+		createdAt: new Date("2024-05-01T12:00:00Z"),
+	} as TrackVersion;
+}
+
+function chunk(id: string, data: Buffer, littleEndian: boolean): Buffer {
+	const size = Buffer.alloc(4);
+	if (littleEndian) size.writeUInt32LE(data.length);
+	else size.writeUInt32BE(data.length);
+	return Buffer.concat([
+		Buffer.from(id, "latin1"),
+		size,
+		data,
+		Buffer.alloc(data.length % 2),
+	]);
+}
+
+// Stand-in audio: distinct bytes, so any shift or truncation shows
+const samples = Buffer.from(Array.from({ length: 4000 }, (_, i) => i % 251));
+
+// 16-bit stereo 44.1kHz WAV with an old INFO title
+function makeWav(): Buffer {
+	const format = Buffer.alloc(16);
+	format.writeUInt16LE(1, 0);
+	format.writeUInt16LE(2, 2);
+	format.writeUInt32LE(44100, 4);
+	format.writeUInt32LE(44100 * 4, 8);
+	format.writeUInt16LE(4, 12);
+	format.writeUInt16LE(16, 14);
+	const body = Buffer.concat([
+		Buffer.from("WAVE"),
+		chunk("fmt ", format, true),
+		chunk(
+			"LIST",
+			Buffer.concat([
+				Buffer.from("INFO"),
+				chunk("INAM", Buffer.from("Old\0"), true),
+			]),
+			true
+		),
+		chunk("data", samples, true),
+	]);
+	return Buffer.concat([Buffer.from("RIFF"), uint32LE(body.length), body]);
+}
+
+// 16-bit stereo 44.1kHz AIFF
+function makeAiff(): Buffer {
+	const common = Buffer.alloc(18);
+	common.writeUInt16BE(2, 0);
+	common.writeUInt32BE(samples.length / 4, 2);
+	common.writeUInt16BE(16, 6);
+	// 44100 as an 80-bit extended float
+	Buffer.from([0x40, 0x0e, 0xac, 0x44, 0, 0, 0, 0, 0, 0]).copy(common, 8);
+	const sound = Buffer.concat([Buffer.alloc(8), samples]);
+	const body = Buffer.concat([
+		Buffer.from("AIFF"),
+		chunk("COMM", common, false),
+		chunk("SSND", sound, false),
+	]);
+	const size = Buffer.alloc(4);
+	size.writeUInt32BE(body.length);
+	return Buffer.concat([Buffer.from("FORM"), size, body]);
+}
+
+// MPEG-1 layer III frames (128kbps, 44.1kHz) behind an old ID3v2.3 title
+function makeMp3(): Buffer {
+	const frame = Buffer.alloc(417, 0x55);
+	Buffer.from([0xff, 0xfb, 0x90, 0x64]).copy(frame);
+	const title = Buffer.concat([Buffer.from([0]), Buffer.from("Old")]);
+	const titleFrame = Buffer.concat([
+		Buffer.from("TIT2"),
+		Buffer.from([0, 0, 0, title.length, 0, 0]),
+		title,
+	]);
+	return Buffer.concat([
+		Buffer.from("ID3"),
+		Buffer.from([3, 0, 0, 0, 0, 0, titleFrame.length]),
+		titleFrame,
+		...Array.from({ length: 8 }, () => frame),
+	]);
+}
+
+// FLAC with STREAMINFO, an old VORBIS_COMMENT and padding before the frames
+function makeFlac(): Buffer {
+	const streamInfo = Buffer.alloc(34);
+	streamInfo.writeUInt16BE(4096, 0);
+	streamInfo.writeUInt16BE(4096, 2);
+	// 44.1kHz, 2 channels, 16 bits, 1000 samples
+	streamInfo.writeUIntBE((44100 << 4) | (1 << 1), 10, 3);
+	streamInfo.writeUInt8(0xf0, 13);
+	streamInfo.writeUInt32BE(1000, 14);
+	const vendor = Buffer.from("reference libFLAC 1.4.3");
+	const old = Buffer.from("TITLE=Old");
+	const comment = Buffer.concat([
+		uint32LE(vendor.length),
+		vendor,
+		uint32LE(1),
+		uint32LE(old.length),
+		old,
+	]);
+	const block = (type: number, data: Buffer, last = false) => {
+		const header = Buffer.alloc(4);
+		header[0] = type | (last ? 0x80 : 0);
+		header.writeUIntBE(data.length, 1, 3);
+		return Buffer.concat([header, data]);
+	};
+	return Buffer.concat([
+		Buffer.from("fLaC"),
+		block(0, streamInfo),
+		block(4, comment),
+		block(1, Buffer.alloc(64), true),
+		Buffer.from([0xff, 0xf8]),
+		samples,
+	]);
+}
+
+function uint32LE(value: number): Buffer {
+	const buffer = Buffer.alloc(4);
+	buffer.writeUInt32LE(value);
+	return buffer;
+}
+
+// The bytes a player decodes, with every tag stripped away
+function audioPayload(file: Buffer, format: string): Buffer {
+	switch (format) {
+		case "mp3": {
+			let start = 0;
+			while (file.toString("latin1", start, start + 3) === "ID3") {
+				const size =
+					(file[start + 6] << 21) |
+					(file[start + 7] << 14) |
+					(file[start + 8] << 7) |
+					file[start + 9];
+				start += 10 + size;
+			}
+			return file.subarray(start);
+		}
+		case "flac": {
+			let offset = 4;
+			let isLast = false;
+			while (!isLast) {
+				isLast = (file[offset] & 0x80) !== 0;
+				offset += 4 + file.readUIntBE(offset + 1, 3);
+			}
+			return file.subarray(offset);
+		}
+		default: {
+			const littleEndian = format === "wav";
+			const id = littleEndian ? "data" : "SSND";
+			for (let offset = 12; offset + 8 <= file.length; ) {
+				const size = littleEndian
+					? file.readUInt32LE(offset + 4)
+					: file.readUInt32BE(offset + 4);
+				if (file.toString("latin1", offset, offset + 4) === id) {
+					return file.subarray(offset + 8, offset + 8 + size);
+				}
+				offset += 8 + size + (size % 2);
+			}
+			throw new Error(`No ${id} chunk`);
+		}
+	}
+}
+
+const formats = [
+	{ ext: "mp3", make: makeMp3, tagType: "ID3v2.4" },
+	{ ext: "wav", make: makeWav, tagType: "ID3v2.4" },
+	{ ext: "aiff", make: makeAiff, tagType: "ID3v2.4" },
+	{ ext: "flac", make: makeFlac, tagType: "vorbis" },
+];
+
+describe("tagRenderedFile", () => {
+	it.each(formats)(
+		"writes readable tags into $ext and keeps its audio",
+		async ({ ext, make, tagType }) => {
+			const filePath = path.join(dir, `run_it_extended_v2.${ext}`);
+			const original = make();
+			fs.writeFileSync(filePath, original);
+
+			// Tagging twice must replace, not stack, the first tags
+			await tagRenderedFile(track, versionAt(filePath));
+			await tagRenderedFile(track, versionAt(filePath));
+
+			const tagged = fs.readFileSync(filePath);
+			expect(
+				audioPayload(tagged, ext).equals(audioPayload(original, ext))
+			).toBe(true);
+			expect(fs.existsSync(`${filePath}.tagging`)).toBe(false);
+
+			const { common, native } = await parseFile(filePath);
+			expect(common.title).toBe("Run It (Extended Mix)");
+			expect(common.artist).toBe("Beyoncé");
+			expect(common.albumartist).toBe("Various Artists");
+			expect(common.album).toBe("Nights");
+			expect(common.genre).toEqual(["House"]);
+			expect(common.year).toBe(2024);
+			expect(common.composer).toEqual(["B. Knowles"]);
+			expect(common.bpm).toBe(124);
+
+			const fields = native[tagType].map(({ id }) => id);
+			if (tagType === "vorbis") {
+				// DJ software reads INITIALKEY, which the parser has no common name for
+				expect(native.vorbis).toContainEqual({ id: "INITIALKEY", value: "Am" });
+				expect(fields).toEqual(
+					expect.arrayContaining([
+						"EXTENDED_VERSION",
+						"CHAPTER001",
+						"CHAPTER002NAME",
+						"SERATO_MARKERS_V2",
+					])
+				);
+				expect(fields.filter((id) => id === "TITLE")).toHaveLength(1);
+			} else {
+				expect(common.key).toBe("Am");
+				expect(fields).toEqual(
+					expect.arrayContaining(["TXXX:EXTENDED_VERSION", "CHAP", "GEOB"])
+				);
+				expect(fields.filter((id) => id === "TIT2")).toHaveLength(1);
+			}
+		}
+	);
+
+	it("leaves an MP3 with a malformed ID3 header alone", async () => {
+		const filePath = path.join(dir, "broken_extended_v2.mp3");
+		const original = makeMp3();
+		original[8] = 0x80; // size bytes must stay below 0x80
+		fs.writeFileSync(filePath, original);
+		const log = vi.spyOn(console, "error").mockImplementation(() => {});
+
+		await tagRenderedFile(track, versionAt(filePath));
+
+		expect(fs.readFileSync(filePath).equals(original)).toBe(true);
+		expect(log).toHaveBeenCalledWith(
+			expect.stringContaining("malformed ID3 header")
+		);
+		log.mockRestore();
+	});
+
+	it("leaves an MP3 whose ID3 size runs past the file alone", async () => {
+		const filePath = path.join(dir, "short_extended_v2.mp3");
+		const original = makeMp3().subarray(0, 30);
+		original[9] = 0x7f;
+		fs.writeFileSync(filePath, original);
+		const log = vi.spyOn(console, "error").mockImplementation(() => {});
+
+		await tagRenderedFile(track, versionAt(filePath));
+
+		expect(fs.readFileSync(filePath).equals(original)).toBe(true);
+		log.mockRestore();
+	});
+});
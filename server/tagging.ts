@@ -0,0 +1,582 @@
+/** @format */
+
+import fs from "fs";
+import path from "path";
+import type { AudioTrack, TrackVersion } from "@shared/schema";
+import { getTrackKey, shortKeyName } from "@shared/musicalKey";
+import { getCuePoints, getTempoMarks } from "./exporters/common";
+import { buildSeratoBeatGrid, buildSeratoMarkers2 } from "./exporters/serato";
+import { readFormatTags, sourceTagsFrom } from "./ffmpeg";
+
+// Metadata written into a rendered file, whatever its format
+interface RenderTags {
+	title: string;
+	mixName: string; // "Extended Mix", or the version's label
+	artist?: string;
+	albumArtist?: string;
+	album?: string;
+	genre?: string;
+	year?: string;
+	label?: string;
+	composer?: string;
+	bpm?: number;
+	key?: string;
+	comment: string;
+	versionNumber: number;
+}
+
+// A part of the mix, in seconds into the render
+interface Chapter {
+	name: string;
+	start: number;
+	end: number;
+}
+
+// A binary object Serato reads its cues or grid from
+interface SeratoObject {
+	description: string;
+	data: Buffer;
+}
+
+function uint32(value: number, littleEndian = false): Buffer {
+	const buffer = Buffer.alloc(4);
+	if (littleEndian) buffer.writeUInt32LE(value);
+	else buffer.writeUInt32BE(value);
+	return buffer;
+}
+
+// ID3v2 sizes store 7 bits per byte so they never look like a sync word
+function syncsafe(size: number): Buffer {
+	return Buffer.from([
+		(size >> 21) & 0x7f,
+		(size >> 14) & 0x7f,
+		(size >> 7) & 0x7f,
+		size & 0x7f,
+	]);
+}
+
+function readSyncsafe(buffer: Buffer, offset: number): number {
+	return (
+		(buffer[offset] << 21) |
+		(buffer[offset + 1] << 14) |
+		(buffer[offset + 2] << 7) |
+		buffer[offset + 3]
+	);
+}
+
+function id3Frame(id: string, data: Buffer): Buffer {
+	return Buffer.concat([
+		Buffer.from(id, "ascii"),
+		syncsafe(data.length),
+		Buffer.from([0x00, 0x00]),
+		data,
+	]);
+}
+
+// Text frames are written as UTF-8 (encoding byte 3)
+function textFrame(id: string, text: string): Buffer {
+	return id3Frame(id, Buffer.concat([Buffer.from([0x03]), Buffer.from(text)]));
+}
+
+function userTextFrame(description: string, text: string): Buffer {
+	return id3Frame(
+		"TXXX",
+		Buffer.concat([Buffer.from([0x03]), Buffer.from(`${description}\0${text}`)])
+	);
+}
+
+// Comment with an empty description, in English
+function commentFrame(text: string): Buffer {
+	return id3Frame(
+		"COMM",
+		Buffer.concat([Buffer.from([0x03]), Buffer.from(`eng\0${text}`)])
+	);
+}
+
+// General encapsulated object: a binary blob identified by its description
+function geobFrame(description: string, data: Buffer): Buffer {
+	return id3Frame(
+		"GEOB",
+		Buffer.concat([
+			Buffer.from([0x00]), // ISO-8859-1 strings
+			Buffer.from("application/octet-stream\0", "latin1"),
+			Buffer.from("\0", "latin1"), // no file name
+			Buffer.from(`${description}\0`, "latin1"),
+			data,
+		])
+	);
+}
+
+/**
+ * A CTOC frame listing the chapters in order and a CHAP frame for each,
+ * named by an embedded TIT2. Byte offsets are left unset (0xFFFFFFFF).
+ */
+function chapterFrames(chapters: Chapter[]): Buffer[] {
+	const ids = chapters.map((_, index) => `ch${index}`);
+	const toc = id3Frame(
+		"CTOC",
+		Buffer.concat([
+			Buffer.from("toc\0", "latin1"),
+			Buffer.from([0x03, ids.length]), // top-level, ordered
+			Buffer.from(ids.map((id) => `${id}\0`).join(""), "latin1"),
+		])
+	);
+	const chaps = chapters.map((chapter, index) =>
+		id3Frame(
+			"CHAP",
+			Buffer.concat([
+				Buffer.from(`${ids[index]}\0`, "latin1"),
+				uint32(Math.round(chapter.start * 1000)),
+				uint32(Math.round(chapter.end * 1000)),
+				uint32(0xffffffff),
+				uint32(0xffffffff),
+				textFrame("TIT2", chapter.name),
+			])
+		)
+	);
+	return [toc, ...chaps];
+}
+
+function id3Tag(
+	tags: RenderTags,
+	chapters: Chapter[],
+	serato: SeratoObject[]
+): Buffer {
+	const text: [string, string | undefined][] = [
+		["TIT2", tags.title],
+		["TIT3", tags.mixName],
+		["TPE1", tags.artist],
+		["TPE2", tags.albumArtist],
+		["TALB", tags.album],
+		["TCON", tags.genre],
+		["TDRC", tags.year],
+		["TPUB", tags.label],
+		["TCOM", tags.composer],
+		// TBPM holds whole beats; the beat grid keeps the decimals
+		["TBPM", tags.bpm ? String(Math.round(tags.bpm)) : undefined],
+		["TKEY", tags.key],
+	];
+	const body = Buffer.concat([
+		...text.flatMap(([id, value]) => (value ? [textFrame(id, value)] : [])),
+		commentFrame(tags.comment),
+		userTextFrame("EXTENDED_VERSION", String(tags.versionNumber)),
+		...chapterFrames(chapters),
+		...serato.map(({ description, data }) => geobFrame(description, data)),
+	]);
+	return Buffer.concat([
+		Buffer.from("ID3", "ascii"),
+		Buffer.from([0x04, 0x00, 0x00]), // v2.4.0, no flags
+		syncsafe(body.length),
+		body,
+	]);
+}
+
+/**
+ * End of the ID3v2 tag starting at `start`, or null when its header is not
+ * one we can trust: an unknown version, size bytes with the high bit set,
+ * or a size running past the end of the file.
+ */
+function id3TagEnd(file: Buffer, start: number): number | null {
+	const header = file.subarray(start, start + 10);
+	if (header.length < 10) return null;
+	const major = header[3];
+	const revision = header[4];
+	const flags = header[5];
+	if (major < 2 || major > 4 || revision === 0xff) return null;
+	if (header.subarray(6).some((byte) => byte >= 0x80)) return null;
+	const hasFooter = major === 4 && (flags & 0x10) !== 0;
+	const end = start + 10 + readSyncsafe(header, 6) + (hasFooter ? 10 : 0);
+	return end <= file.length ? end : null;
+}
+
+/**
+ * Replace any ID3v2 tags at the start of an MP3 with `tag`. Returns null
+ * when an existing tag's header is malformed, since cutting by its size
+ * could eat into the audio.
+ */
+function withMp3Tag(file: Buffer, tag: Buffer): Buffer | null {
+	let start = 0;
+	while (file.toString("latin1", start, start + 3) === "ID3") {
+		const end = id3TagEnd(file, start);
+		if (end === null) return null;
+		start = end;
+	}
+	return Buffer.concat([tag, file.subarray(start)]);
+}
+
+interface Chunk {
+	id: string;
+	data: Buffer;
+}
+
+// Chunks of a RIFF (WAV, little-endian sizes) or IFF (AIFF, big-endian) file
+function readChunks(file: Buffer, littleEndian: boolean): Chunk[] {
+	const chunks: Chunk[] = [];
+	let offset = 12;
+	while (offset + 8 <= file.length) {
+		const id = file.toString("latin1", offset, offset + 4);
+		const size = littleEndian
+			? file.readUInt32LE(offset + 4)
+			: file.readUInt32BE(offset + 4);
+		chunks.push({ id, data: file.subarray(offset + 8, offset + 8 + size) });
+		// Chunks are padded to even sizes
+		offset += 8 + size + (size % 2);
+	}
+	return chunks;
+}
+
+function chunkBytes({ id, data }: Chunk, littleEndian: boolean): Buffer {
+	return Buffer.concat([
+		Buffer.from(id, "ascii"),
+		uint32(data.length, littleEndian),
+		data,
+		Buffer.alloc(data.length % 2),
+	]);
+}
+
+// The file's RIFF/FORM header around a new list of chunks
+function withChunks(
+	file: Buffer,
+	chunks: Chunk[],
+	littleEndian: boolean
+): Buffer {
+	const body = Buffer.concat(
+		chunks.map((chunk) => chunkBytes(chunk, littleEndian))
+	);
+	return Buffer.concat([
+		file.subarray(0, 4),
+		uint32(body.length + 4, littleEndian),
+		file.subarray(8, 12),
+		body,
+	]);
+}
+
+// A RIFF LIST chunk, e.g. INFO text or adtl cue labels
+function listChunk(type: string, entries: Chunk[]): Chunk {
+	return {
+		id: "LIST",
+		data: Buffer.concat([
+			Buffer.from(type, "ascii"),
+			...entries.map((entry) => chunkBytes(entry, true)),
+		]),
+	};
+}
+
+function zeroTerminated(text: string): Buffer {
+	return Buffer.from(`${text}\0`);
+}
+
+/**
+ * Tag a WAV file: RIFF INFO text for players that only read that, a `cue `
+ * chunk with a labelled point at each chapter start, and the ID3 chunk DJ
+ * software reads. Earlier copies of these chunks are replaced.
+ */
+function withWavTags(
+	file: Buffer,
+	tags: RenderTags,
+	chapters: Chapter[],
+	id3: Buffer
+): Buffer {
+	const chunks = readChunks(file, true);
+	const format = chunks.find((chunk) => chunk.id === "fmt ");
+	const sampleRate = format ? format.data.readUInt32LE(4) : 44100;
+
+	const kept = chunks.filter((chunk) => {
+		if (chunk.id === "LIST") {
+			const type = chunk.data.toString("latin1", 0, 4);
+			return type !== "INFO" && type !== "adtl";
+		}
+		return !["cue ", "id3 ", "ID3 "].includes(chunk.id);
+	});
+
+	const info: [string, string | undefined][] = [
+		["INAM", tags.title],
+		["IART", tags.artist],
+		["IPRD", tags.album],
+		["IGNR", tags.genre],
+		["ICRD", tags.year],
+		["ICMT", tags.comment],
+	];
+	// Cue ids start at 1; offsets are sample frames into the data chunk
+	const points = chapters.map((chapter, index) => {
+		const sample = Math.round(chapter.start * sampleRate);
+		return Buffer.concat([
+			uint32(index + 1, true),
+			uint32(sample, true),
+			Buffer.from("data", "ascii"),
+			uint32(0, true),
+			uint32(0, true),
+			uint32(sample, true),
+		]);
+	});
+	const labels = chapters.map((chapter, index) => ({
+		id: "labl",
+		data: Buffer.concat([
+			uint32(index + 1, true),
+			zeroTerminated(chapter.name),
+		]),
+	}));
+
+	return withChunks(
+		file,
+		[
+			...kept,
+			listChunk(
+				"INFO",
+				info.flatMap(([id, value]) =>
+					value ? [{ id, data: zeroTerminated(value) }] : []
+				)
+			),
+			{
+				id: "cue ",
+				data: Buffer.concat([uint32(points.length, true), ...points]),
+			},
+			listChunk("adtl", labels),
+			{ id: "id3 ", data: id3 },
+		],
+		true
+	);
+}
+
+// AIFF carries its tags in an ID3 chunk
+function withAiffTags(file: Buffer, id3: Buffer): Buffer {
+	const kept = readChunks(file, false).filter(
+		(chunk) => chunk.id.toUpperCase() !== "ID3 "
+	);
+	return withChunks(file, [...kept, { id: "ID3 ", data: id3 }], false);
+}
+
+// HH:MM:SS.mmm, as Vorbis CHAPTERxxx comments are written
+function chapterTime(seconds: number): string {
+	const ms = Math.round(seconds * 1000);
+	const pad = (value: number, width = 2) => String(value).padStart(width, "0");
+	const hours = pad(Math.floor(ms / 3600000));
+	const minutes = pad(Math.floor(ms / 60000) % 60);
+	const secs = pad(Math.floor(ms / 1000) % 60);
+	return `${hours}:${minutes}:${secs}.${pad(ms % 1000, 3)}`;
+}
+
+function vorbisComments(
+	tags: RenderTags,
+	chapters: Chapter[],
+	serato: SeratoObject[]
+): [string, string][] {
+	const fields: [string, string | undefined][] = [
+		["TITLE", tags.title],
+		["VERSION", tags.mixName],
+		["ARTIST", tags.artist],
+		["ALBUMARTIST", tags.albumArtist],
+		["ALBUM", tags.album],
+		["GENRE", tags.genre],
+		["DATE", tags.year],
+		["ORGANIZATION", tags.label],
+		["COMPOSER", tags.composer],
+		["BPM", tags.bpm ? String(Math.round(tags.bpm * 100) / 100) : undefined],
+		["INITIALKEY", tags.key],
+		["COMMENT", tags.comment],
+		["EXTENDED_VERSION", String(tags.versionNumber)],
+		...chapters.flatMap((chapter, index): [string, string][] => {
+			const id = `CHAPTER${String(index + 1).padStart(3, "0")}`;
+			return [
+				[id, chapterTime(chapter.start)],
+				[`${id}NAME`, chapter.name],
+			];
+		}),
+		// Serato keeps the GEOB header and body, base64 encoded, in FLAC comments
+		...serato.map(({ description, data }): [string, string] => [
+			description === "Serato Markers2"
+				? "SERATO_MARKERS_V2"
+				: "SERATO_BEATGRID",
+			Buffer.concat([
+				Buffer.from(`application/octet-stream\0\0${description}\0`, "latin1"),
+				data,
+			]).toString("base64"),
+		]),
+	];
+	return fields.filter((field): field is [string, string] => Boolean(field[1]));
+}
+
+/**
+ * Replace the VORBIS_COMMENT block of a FLAC file, keeping its vendor
+ * string and every other metadata block (seek table, pictures, ...).
+ */
+function withFlacTags(file: Buffer, comments: [string, string][]): Buffer {
+	if (file.toString("latin1", 0, 4) !== "fLaC") {
+		throw new Error("Not a FLAC file");
+	}
+
+	const STREAMINFO = 0;
+	const VORBIS_COMMENT = 4;
+	const blocks: { type: number; data: Buffer }[] = [];
+	let offset = 4;
+	let isLast = false;
+	while (!isLast && offset + 4 <= file.length) {
+		isLast = (file[offset] & 0x80) !== 0;
+		const size = file.readUIntBE(offset + 1, 3);
+		blocks.push({
+			type: file[offset] & 0x7f,
+			data: file.subarray(offset + 4, offset + 4 + size),
+		});
+		offset += 4 + size;
+	}
+
+	const lengthPrefixed = (value: Buffer) =>
+		Buffer.concat([uint32(value.length, true), value]);
+	const previous = blocks.find((block) => block.type === VORBIS_COMMENT);
+	const vendor = previous
+		? previous.data.subarray(4, 4 + previous.data.readUInt32LE(0))
+		: Buffer.from("DJ Mix Extender");
+	const comment = {
+		type: VORBIS_COMMENT,
+		data: Buffer.concat([
+			lengthPrefixed(vendor),
+			uint32(comments.length, true),
+			...comments.map(([name, value]) =>
+				lengthPrefixed(Buffer.from(`${name}=${value}`))
+			),
+		]),
+	};
+
+	// STREAMINFO has to stay first; the comments go right after it
+	const others = blocks.filter((block) => block.type !== VORBIS_COMMENT);
+	const ordered = [
+		...others.filter((block) => block.type === STREAMINFO),
+		comment,
+		...others.filter((block) => block.type !== STREAMINFO),
+	];
+	const metadata = ordered.map((block, index) => {
+		const header = Buffer.alloc(4);
+		header[0] = block.type | (index === ordered.length - 1 ? 0x80 : 0);
+		header.writeUIntBE(block.data.length, 1, 3);
+		return Buffer.concat([header, block.data]);
+	});
+	return Buffer.concat([
+		file.subarray(0, 4),
+		...metadata,
+		file.subarray(offset),
+	]);
+}
+
+/**
+ * Tags for a render: the upload's own tags, a title marking it as an
+ * extended mix, and the version's BPM, key and intro/outro lengths.
+ */
+function buildRenderTags(
+	track: AudioTrack,
+	version: TrackVersion,
+	source: Record<string, string>
+): RenderTags {
+	const name = path.basename(
+		track.originalFilename,
+		path.extname(track.originalFilename)
+	);
+	const mixName = version.label || "Extended Mix";
+	const key = getTrackKey(track);
+	// Tags stored at upload win; tracks uploaded before they were stored
+	// fall back to the ones just read
+	const read = sourceTagsFrom(source);
+	const year = track.year ?? read.year;
+	return {
+		title: `${track.title || read.title || name} (${mixName})`,
+		mixName,
+		artist: track.artist || read.artist || undefined,
+		albumArtist: source.album_artist,
+		album: track.album || read.album || undefined,
+		genre: track.genre || read.genre || undefined,
+		year: year ? String(year) : undefined,
+		label: track.label || read.label || undefined,
+		composer: source.composer,
+		bpm: version.beatGrid?.bpm || track.bpm || undefined,
+		key: key ? shortKeyName(key) : undefined,
+		comment: `Extended Mix v${version.versionNumber}: ${version.settings.introLength}-bar intro, ${version.settings.outroLength}-bar outro`,
+		versionNumber: version.versionNumber,
+	};
+}
+
+// Intro, main body and outro, covering the whole render
+function buildChapters(track: AudioTrack, version: TrackVersion): Chapter[] {
+	const cuePoints = getCuePoints(track, version);
+	const end = Math.max(version.duration ?? 0, cuePoints.outro);
+	return [
+		{ name: "Intro", start: 0, end: cuePoints.main },
+		{ name: "Main", start: cuePoints.main, end: cuePoints.outro },
+		{ name: "Outro", start: cuePoints.outro, end },
+	];
+}
+
+// Serato cue markers and beat grid, from the same data the library exports use
+function buildSeratoObjects(
+	track: AudioTrack,
+	version: TrackVersion
+): SeratoObject[] {
+	const marks = getTempoMarks(track, version);
+	const objects = [
+		{
+			description: "Serato Markers2",
+			data: buildSeratoMarkers2(getCuePoints(track, version)),
+		},
+	];
+	if (marks.length > 0) {
+		objects.push({
+			description: "Serato BeatGrid",
+			data: buildSeratoBeatGrid(marks),
+		});
+	}
+	return objects;
+}
+
+/**
+ * Tag a finished render so it carries its metadata with it: the upload's
+ * tags with an "Extended Mix" title, BPM, key and version info, intro, main
+ * and outro markers (ID3 chapters, a WAV cue chunk or Vorbis chapters) and
+ * Serato's cues and beat grid.
+ */
+export async function tagRenderedFile(
+	track: AudioTrack,
+	version: TrackVersion
+): Promise<void> {
+	// Unreadable source tags only mean fewer fields are copied
+	const source = await readFormatTags(track.originalPath).catch((error) => {
+		console.error("Error reading source tags:", error);
+		return {};
+	});
+	const tags = buildRenderTags(track, version, source);
+	const chapters = buildChapters(track, version);
+	const serato = buildSeratoObjects(track, version);
+	const file = await fs.promises.readFile(version.filePath);
+
+	let tagged: Buffer | null;
+	switch (path.extname(version.filePath).toLowerCase()) {
+		case ".mp3":
+			tagged = withMp3Tag(file, id3Tag(tags, chapters, serato));
+			break;
+		case ".wav":
+			tagged = withWavTags(
+				file,
+				tags,
+				chapters,
+				id3Tag(tags, chapters, serato)
+			);
+			break;
+		case ".aiff":
+		case ".aif":
+			tagged = withAiffTags(file, id3Tag(tags, chapters, serato));
+			break;
+		case ".flac":
+			tagged = withFlacTags(file, vorbisComments(tags, chapters, serato));
+			break;
+		default:
+			return;
+	}
+	if (!tagged) {
+		console.error(
+			`Skipping tags for ${version.filePath}: malformed ID3 header`
+		);
+		return;
+	}
+
+	// Write next to the file and swap it in, so players never read half a file
+	const tmpPath = `${version.filePath}.tagging`;
+	await fs.promises.writeFile(tmpPath, tagged);
+	await fs.promises.rename(tmpPath, version.filePath);
+}
@@ -0,0 +1,26 @@
+/** @format */
+
+import { EventEmitter } from "events";
+import type { TrackEvent } from "@shared/schema";
+
+/**
+ * In-process bus for track status changes. Routes and the processing queue
+ * publish here; the WebSocket server forwards each event to the owner's
+ * open connections.
+ */
+export const trackEvents = new EventEmitter();
+
+export function emitTrackEvent(
+	userId: number | null | undefined,
+	event: TrackEvent
+): void {
+	if (userId == null) return;
+	trackEvents.emit("event", userId, event);
+}
+
+export function onTrackEvent(
+	listener: (userId: number, event: TrackEvent) => void
+): () => void {
+	trackEvents.on("event", listener);
+	return () => trackEvents.off("event", listener);
+}
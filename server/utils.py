@@ -5,8 +5,9 @@ This script analyzes an audio file and extracts useful metadata, including:
 - Audio format
 - Duration in seconds
 - Bitrate
-- Estimated tempo (BPM)
-- Detected musical key
+- Estimated tempo (BPM, fractional) and a tempo map for variable-tempo tracks
+- Detected musical key (tonic, mode and confidence)
+- Beat grid (beats, downbeats, tempo confidence)
 
 It uses librosa and pydub for audio analysis and handles errors gracefully with a fallback mechanism.
 Run the script from the command line with a file path, and it outputs JSON-formatted metadata.
@@ -21,6 +22,8 @@ import numpy as np
 from os import path
 from pydub import AudioSegment
 
+from beatgrid import build_tempo_map, detect_beat_grid
+
 logging.basicConfig(
     level=logging.INFO,
     format='%(asctime)s - %(name)s - %(levelname)s - %(message)s'
@@ -49,21 +52,37 @@ def get_audio_tempo(audio_array, sample_rate):
     return librosa.beat.tempo(onset_envelope=onset_env, sr=sample_rate)[0]
 
 
-def detect_key(audio_array, sample_rate):
-    chroma = librosa.feature.chroma_cqt(y=audio_array, sr=sample_rate)
-    chroma_sum = np.sum(chroma, axis=1)
-    key_idx = np.argmax(chroma_sum)
+KEY_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F',
+             'F#', 'G', 'G#', 'A', 'A#', 'B']
+
+# Krumhansl-Kessler key profiles, starting from the tonic
+MAJOR_PROFILE = np.array(
+    [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88])
+MINOR_PROFILE = np.array(
+    [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17])
 
-    key_names = ['C', 'C#', 'D', 'D#', 'E', 'F',
-                 'F#', 'G', 'G#', 'A', 'A#', 'B']
-    key = key_names[key_idx]
 
-    minor_chroma = librosa.feature.chroma_cqt(
-        y=audio_array, sr=sample_rate, bins_per_octave=36)
-    minor_sum = np.sum(minor_chroma[9:], axis=1) / np.sum(minor_chroma, axis=1)
+def detect_key(audio_array, sample_rate):
+    """Estimate the key with the Krumhansl-Schmuckler algorithm.
+
+    The track's average chroma is correlated with the major and minor
+    profiles rotated to every tonic, and the best fit wins. Its correlation
+    (clipped to 0..1) is the confidence. Returns a dict with tonic (pitch
+    class, 0 = C), mode and confidence.
+    """
+    chroma = librosa.feature.chroma_cqt(y=audio_array, sr=sample_rate)
+    chroma_mean = np.mean(chroma, axis=1)
 
-    key_type = "minor" if np.mean(minor_sum) > 0.2 else "major"
-    return f"{key} {key_type}"
+    best = {"tonic": 0, "mode": "major", "confidence": 0.0}
+    best_score = -np.inf
+    for mode, profile in (("major", MAJOR_PROFILE), ("minor", MINOR_PROFILE)):
+        for tonic in range(12):
+            score = np.corrcoef(chroma_mean, np.roll(profile, tonic))[0, 1]
+            if score > best_score:
+                best_score = score
+                best = {"tonic": tonic, "mode": mode,
+                        "confidence": round(float(np.clip(score, 0, 1)), 3)}
+    return best
 
 
 def analyze_audio_file(file_path):
@@ -79,15 +98,27 @@ def analyze_audio_file(file_path):
         audio = AudioSegment.from_file(file_path)
         bitrate = int(get_audio_bitrate(audio))
 
-        tempo = int(round(get_audio_tempo(audio_array, sample_rate)))
+        tempo = round(float(get_audio_tempo(audio_array, sample_rate)), 2)
         key = detect_key(audio_array, sample_rate)
 
+        try:
+            beat_grid = detect_beat_grid(audio_array, sample_rate)
+        except Exception as error:
+            logger.error("Beat grid detection failed: %s", str(error))
+            beat_grid = None
+        tempo_map = build_tempo_map(beat_grid["beats"]) if beat_grid else None
+
         info = {
             "format": format_type,
             "duration": duration,
             "bpm": tempo,
-            "key": key,
-            "bitrate": bitrate
+            "key": f"{KEY_NAMES[key['tonic']]} {key['mode']}",
+            "keyTonic": key["tonic"],
+            "keyMode": key["mode"],
+            "keyConfidence": key["confidence"],
+            "bitrate": bitrate,
+            "beatGrid": beat_grid,
+            "tempoMap": tempo_map
         }
 
         logger.info("Successfully analyzed audio file: %s", info)
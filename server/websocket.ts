@@ -0,0 +1,92 @@
+/** @format */
+
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import type { RequestHandler, Request, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { onTrackEvent } from "./trackEvents";
+
+declare module "express-session" {
+	interface SessionData {
+		// Written by passport.serializeUser
+		passport?: { user?: number };
+	}
+}
+
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+/**
+ * Push channel for track status, progress and completion events.
+ *
+ * Clients connect to /ws with their session cookie; each connection only
+ * receives events for tracks owned by the signed-in user. Other upgrade
+ * requests (such as Vite HMR in development) are left alone.
+ */
+export function setupWebSocket(
+	httpServer: Server,
+	sessionParser: RequestHandler
+): WebSocketServer {
+	const wss = new WebSocketServer({ noServer: true });
+	const connections = new Map<number, Set<WebSocket>>();
+	const alive = new WeakSet<WebSocket>();
+
+	httpServer.on(
+		"upgrade",
+		(req: IncomingMessage, socket: Duplex, head: Buffer) => {
+			const { pathname } = new URL(req.url || "/", "http://localhost");
+			if (pathname !== "/ws") return;
+
+			sessionParser(req as Request, {} as Response, () => {
+				const userId = (req as Request).session?.passport?.user;
+				if (!userId) {
+					socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+					socket.destroy();
+					return;
+				}
+
+				wss.handleUpgrade(req, socket, head, (ws) => {
+					const userConnections = connections.get(userId) || new Set();
+					userConnections.add(ws);
+					connections.set(userId, userConnections);
+					alive.add(ws);
+
+					ws.on("pong", () => alive.add(ws));
+					ws.on("close", () => {
+						userConnections.delete(ws);
+						if (userConnections.size === 0) {
+							connections.delete(userId);
+						}
+					});
+				});
+			});
+		}
+	);
+
+	const unsubscribe = onTrackEvent((userId, event) => {
+		const payload = JSON.stringify(event);
+		connections.get(userId)?.forEach((ws) => {
+			if (ws.readyState === WebSocket.OPEN) {
+				ws.send(payload);
+			}
+		});
+	});
+
+	// Drop connections that stopped answering pings
+	const heartbeat = setInterval(() => {
+		wss.clients.forEach((ws) => {
+			if (!alive.has(ws)) {
+				ws.terminate();
+				return;
+			}
+			alive.delete(ws);
+			ws.ping();
+		});
+	}, HEARTBEAT_INTERVAL_MS);
+
+	wss.on("close", () => {
+		clearInterval(heartbeat);
+		unsubscribe();
+	});
+
+	return wss;
+}
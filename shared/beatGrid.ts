@@ -0,0 +1,44 @@
+/** @format */
+
+import type { BeatGrid } from "./schema";
+
+/**
+ * Constant-tempo beat grid from a BPM and the time of any downbeat, covering
+ * 0..duration seconds. Used for manual corrections in the beat grid editor;
+ * the server stores the same grid the editor previews.
+ */
+export function buildBeatGrid(
+	bpm: number,
+	downbeat: number,
+	duration: number,
+	beatsPerBar = 4
+): BeatGrid {
+	const beatLength = 60 / bpm;
+	const barLength = beatLength * beatsPerBar;
+	const round = (time: number) => Math.round(time * 1000) / 1000;
+
+	// Walk the anchor back to the earliest downbeat and the earliest beat,
+	// so pickup beats before bar one stay on the grid
+	const firstDownbeat = downbeat - Math.floor(downbeat / barLength) * barLength;
+	const firstBeat =
+		firstDownbeat - Math.floor(firstDownbeat / beatLength) * beatLength;
+
+	// Multiply rather than accumulate so long tracks don't drift
+	const beats: number[] = [];
+	for (let i = 0; firstBeat + i * beatLength <= duration; i++) {
+		beats.push(round(firstBeat + i * beatLength));
+	}
+	const downbeats: number[] = [];
+	for (let i = 0; firstDownbeat + i * barLength <= duration; i++) {
+		downbeats.push(round(firstDownbeat + i * barLength));
+	}
+
+	return {
+		bpm: Math.round(bpm * 1000) / 1000,
+		confidence: 1,
+		firstDownbeat: round(firstDownbeat),
+		beats,
+		downbeats,
+		manual: true,
+	};
+}
@@ -0,0 +1,66 @@
+/** @format */
+
+import type { AudioTrack, KeyMode } from "./schema";
+
+export interface TrackKey {
+	tonic: number; // pitch class, 0 = C ... 11 = B
+	mode: KeyMode;
+	confidence: number | null;
+}
+
+export const pitchClassNames = [
+	"C",
+	"C#",
+	"D",
+	"D#",
+	"E",
+	"F",
+	"F#",
+	"G",
+	"G#",
+	"A",
+	"A#",
+	"B",
+];
+
+/**
+ * Structured key of a track. Tracks analysed before keys were stored as
+ * tonic and mode only have the "A minor" style name, which is parsed instead.
+ */
+export function getTrackKey(
+	track: Pick<AudioTrack, "key" | "keyTonic" | "keyMode" | "keyConfidence">
+): TrackKey | null {
+	if (track.keyTonic !== null && track.keyMode) {
+		return {
+			tonic: track.keyTonic,
+			mode: track.keyMode,
+			confidence: track.keyConfidence,
+		};
+	}
+	const match = track.key?.match(/^([A-G]#?) (major|minor)$/);
+	if (!match) return null;
+	return {
+		tonic: pitchClassNames.indexOf(match[1]),
+		mode: match[2] as KeyMode,
+		confidence: null,
+	};
+}
+
+/**
+ * Position of a key on the Camelot wheel, 1..12. Neighbouring numbers are a
+ * fifth apart, and a minor key shares its number with its relative major.
+ */
+export function camelotNumber(key: Pick<TrackKey, "tonic" | "mode">): number {
+	// The relative major of a minor key is three semitones up
+	const majorTonic = key.mode === "minor" ? (key.tonic + 3) % 12 : key.tonic;
+	// C major is 8B, and each fifth up (7 semitones) adds one
+	return ((majorTonic * 7 + 7) % 12) + 1;
+}
+
+/**
+ * Short musical key name as DJ software and ID3 TKEY frames write it:
+ * "Am", "F#", "C#m"
+ */
+export function shortKeyName(key: Pick<TrackKey, "tonic" | "mode">): string {
+	return `${pitchClassNames[key.tonic]}${key.mode === "minor" ? "m" : ""}`;
+}
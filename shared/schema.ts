@@ -1,33 +1,127 @@
 /** @format */
 
-import { pgTable, text, serial, integer, jsonb } from "drizzle-orm/pg-core";
+import {
+	pgTable,
+	text,
+	serial,
+	integer,
+	doublePrecision,
+	boolean,
+	jsonb,
+	real,
+	timestamp,
+} from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Declared before the tables so the insert schemas can use them
+export const keyModes = ["major", "minor"] as const;
+
+export type KeyMode = (typeof keyModes)[number];
+
 export const users = pgTable("users", {
 	id: serial("id").primaryKey(),
 	username: text("username").notNull().unique(),
 	password: text("password").notNull(),
+	maxVersionsPerTrack: integer("max_versions_per_track"), // overrides MAX_VERSIONS_PER_TRACK when set
+	keyNotation: text("key_notation")
+		.$type<KeyNotation>()
+		.notNull()
+		.default("camelot"), // how keys are displayed to this user
 });
 
 export const audioTracks = pgTable("audio_tracks", {
 	id: serial("id").primaryKey(),
 	originalFilename: text("original_filename").notNull(),
 	originalPath: text("original_path").notNull(),
-	extendedPaths: jsonb("extended_paths").default("[]"),
+	// Read from the upload's own tags; null when the file has none
+	title: text("title"),
+	artist: text("artist"),
+	album: text("album"),
+	label: text("label"), // record label (ID3 TPUB)
+	genre: text("genre"),
+	year: integer("year"),
+	hasArtwork: boolean("has_artwork").notNull().default(false), // embedded cover art, cached as a thumbnail
 	duration: integer("duration"),
-	extendedDurations: jsonb("extended_durations").default("[]"),
-	bpm: integer("bpm"),
-	key: text("key"),
+	// Legacy per-version arrays, superseded by track_versions. Only read by
+	// storage.backfillTrackVersions(), which moves them over and empties them;
+	// they can be dropped once every deployment has run it.
+	extendedPaths: jsonb("extended_paths").$type<string[]>().default([]),
+	extendedDurations: jsonb("extended_durations")
+		.$type<(number | null)[]>()
+		.default([]),
+	extendedSettings: jsonb("extended_settings")
+		.$type<(ProcessingSettings | null)[]>()
+		.default([]),
+	extendedMarkers: jsonb("extended_markers")
+		.$type<({ introEnd: number; outroStart: number } | null)[]>()
+		.default([]),
+	versionCount: integer("version_count").notNull().default(1), // legacy, unused; dropped with the arrays above
+	bpm: doublePrecision("bpm"), // fractional, e.g. 123.97; the main tempo when tempoMap is set
+	tempoMap: jsonb("tempo_map").$type<TempoMap>(), // null for constant-tempo tracks
+	beatGrid: jsonb("beat_grid").$type<BeatGrid>(), // null until analysis finds a grid
+	key: text("key"), // display name, e.g. "A minor"; rows analysed before keyTonic only have this
+	keyTonic: integer("key_tonic"), // pitch class, 0 = C ... 11 = B
+	keyMode: text("key_mode").$type<KeyMode>(),
+	keyConfidence: real("key_confidence"), // 0..1, how well the best key profile fits
 	format: text("format"),
 	bitrate: integer("bitrate"),
 	status: text("status").notNull().default("uploaded"), // status can be: uploaded, processing, regenerate, completed, error
-	settings: jsonb("settings"),
-	versionCount: integer("version_count").notNull().default(1),
+	settings: jsonb("settings").$type<ProcessingSettings>(), // last requested settings, reused by regenerate
+	userId: integer("user_id").references(() => users.id),
+});
+
+// One row per extended render of a track. Rows are created as "pending"
+// when a render is queued and become "completed" when it finishes; failed
+// and cancelled renders remove their row.
+export const trackVersions = pgTable("track_versions", {
+	id: serial("id").primaryKey(),
+	trackId: integer("track_id")
+		.notNull()
+		.references(() => audioTracks.id, { onDelete: "cascade" }),
+	versionNumber: integer("version_number").notNull(), // matches the _extended_vN file suffix
+	filePath: text("file_path").notNull(),
+	duration: integer("duration"),
+	status: text("status").notNull().default("pending"), // status can be: pending, completed
+	settings: jsonb("settings").$type<ProcessingSettings>().notNull(),
+	seed: integer("seed"), // null for versions rendered before seeds were recorded
+	introArrangement: jsonb("intro_arrangement").$type<ArrangementStem[]>(), // stem blocks in the order they were played
+	label: text("label"), // user-given name, shown instead of "Version N"
+	pinned: boolean("pinned").notNull().default(false), // pinned versions cannot be deleted
+	introEnd: real("intro_end"), // seconds where the original song starts
+	outroStart: real("outro_start"), // seconds where the outro starts
+	beatGrid: jsonb("beat_grid").$type<BeatGrid>(), // detected on the rendered file
+	createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const processingJobs = pgTable("processing_jobs", {
+	id: serial("id").primaryKey(),
+	trackId: integer("track_id")
+		.notNull()
+		.references(() => audioTracks.id, { onDelete: "cascade" }),
 	userId: integer("user_id").references(() => users.id),
+	status: text("status").notNull().default("queued"), // status can be: queued, running, completed, failed, cancelled
+	settings: jsonb("settings").$type<ProcessingSettings>().notNull(),
+	outputPath: text("output_path").notNull(),
+	versionId: integer("version_id").references(() => trackVersions.id, {
+		onDelete: "set null",
+	}),
+	stage: text("stage").notNull().default("queued"), // one of processingStages
+	progress: integer("progress").notNull().default(0), // 0-100
+	attempts: integer("attempts").notNull().default(0),
+	maxAttempts: integer("max_attempts").notNull().default(3),
+	runAfter: timestamp("run_after").notNull().defaultNow(),
+	lastError: text("last_error"),
+	errorCode: text("error_code").$type<ProcessingErrorCode>(),
+	createdAt: timestamp("created_at").notNull().defaultNow(),
+	startedAt: timestamp("started_at"),
+	finishedAt: timestamp("finished_at"),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+export const insertUserSchema = createInsertSchema(users, {
+	username: (schema) => schema.trim().min(3).max(64),
+	password: (schema) => schema.min(8).max(128),
+}).pick({
 	username: true,
 	password: true,
 });
@@ -38,18 +132,29 @@ export const insertAudioTrackSchema = createInsertSchema(audioTracks).pick({
 	userId: true,
 });
 
-export const updateAudioTrackSchema = createInsertSchema(audioTracks)
+export const updateAudioTrackSchema = createInsertSchema(audioTracks, {
+	keyMode: z.enum(keyModes),
+})
 	.pick({
-		extendedPaths: true,
+		title: true,
+		artist: true,
+		album: true,
+		label: true,
+		genre: true,
+		year: true,
+		hasArtwork: true,
 		duration: true,
-		extendedDurations: true,
 		bpm: true,
+		tempoMap: true,
 		key: true,
+		keyTonic: true,
+		keyMode: true,
+		keyConfidence: true,
 		format: true,
 		bitrate: true,
 		status: true,
 		settings: true,
-		versionCount: true,
+		beatGrid: true,
 	})
 	.partial();
 
@@ -60,11 +165,317 @@ export type InsertAudioTrack = z.infer<typeof insertAudioTrackSchema>;
 export type UpdateAudioTrack = z.infer<typeof updateAudioTrackSchema>;
 export type AudioTrack = typeof audioTracks.$inferSelect;
 
-export const processingSettingsSchema = z.object({
-	introLength: z.number().min(8).max(64).default(16),
-	outroLength: z.number().min(8).max(64).default(16),
-	preserveVocals: z.boolean().default(true),
-	beatDetection: z.enum(["auto", "librosa", "madmom"]).default("auto"),
+export type InsertTrackVersion = Pick<
+	typeof trackVersions.$inferInsert,
+	| "trackId"
+	| "versionNumber"
+	| "filePath"
+	| "status"
+	| "settings"
+	| "seed"
+	| "duration"
+	| "introArrangement"
+	| "introEnd"
+	| "outroStart"
+	| "beatGrid"
+>;
+export type TrackVersion = typeof trackVersions.$inferSelect;
+
+// Body of PATCH /api/tracks/:id/versions/:versionId
+export const updateTrackVersionSchema = z
+	.object({
+		label: z.string().trim().max(80).nullable(),
+		pinned: z.boolean(),
+	})
+	.partial();
+
+export type UpdateTrackVersion = z.infer<typeof updateTrackVersionSchema>;
+
+// Track as returned by the API: completed versions ordered by versionNumber.
+// Routes name one of them by its id, in `:versionId` or `?versionId=`.
+export type TrackWithVersions = AudioTrack & { versions: TrackVersion[] };
+
+export type InsertProcessingJob = Pick<
+	typeof processingJobs.$inferInsert,
+	"trackId" | "userId" | "settings" | "outputPath" | "versionId" | "maxAttempts"
+>;
+export type ProcessingJob = typeof processingJobs.$inferSelect;
+
+// Where vocals may appear in a render: everywhere, only in the original main
+// body (instrumental intro and outro), or nowhere
+export const vocalModes = ["full", "mainOnly", "instrumental"] as const;
+
+export type VocalMode = (typeof vocalModes)[number];
+
+// Key display preference: Camelot (8A), Open Key (1m) or musical (A minor)
+export const keyNotations = ["camelot", "openKey", "musical"] as const;
+
+export type KeyNotation = (typeof keyNotations)[number];
+
+// Body of PATCH /api/user: the preferences a user may change themselves
+export const updateUserSchema = z
+	.object({
+		keyNotation: z.enum(keyNotations),
+	})
+	.partial();
+
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+
+// Stems an intro or outro block can be built from
+export const arrangementStems = ["drums", "bass", "other", "vocals"] as const;
+
+export type ArrangementStem = (typeof arrangementStems)[number];
+
+// One block of an arrangement timeline: `bars` bars of a single stem, with
+// gain in dB on top of the renderer's own stem levels
+export const arrangementBlockSchema = z.object({
+	stem: z.enum(arrangementStems),
+	bars: z.number().int().min(1).max(64),
+	gain: z.number().min(-24).max(12).default(0),
 });
 
+export type ArrangementBlock = z.infer<typeof arrangementBlockSchema>;
+
+// Intro blocks are cut from the loudest bars of their stem, outro blocks from
+// the stem's final bars. Either timeline may be left to the defaults.
+export const arrangementSchema = z.object({
+	intro: z.array(arrangementBlockSchema).min(1).max(16).optional(),
+	outro: z.array(arrangementBlockSchema).min(1).max(16).optional(),
+});
+
+export type Arrangement = z.infer<typeof arrangementSchema>;
+
+// Formats a version can be rendered to; the rendered file takes the format
+// as its extension
+export const outputFormats = ["wav", "aiff", "flac", "mp3"] as const;
+
+export type OutputFormat = (typeof outputFormats)[number];
+
+export const mp3Bitrates = [128, 192, 256, 320] as const; // kbps
+export const bitDepths = [16, 24] as const; // WAV, AIFF and FLAC only
+export const sampleRates = [44100, 48000, 96000] as const; // Hz
+
+// A number that must be one of `values`
+const oneOf = <T extends number>(values: readonly T[]) =>
+	z.number().refine((value): value is T => values.includes(value as T), {
+		message: `Expected one of ${values.join(", ")}`,
+	});
+
+const countBars = (blocks: ArrangementBlock[]) =>
+	blocks.reduce((total, block) => total + block.bars, 0);
+
+// vocalMode takes precedence over the older preserveVocals flag; the parsed
+// settings always carry both, kept consistent with each other.
+// Without an introArrangement the default blocks are shuffled using seed
+// (random when omitted); with one, the blocks play in exactly that order.
+// introLength and outroLength are each section's total length in bars, split
+// across its blocks. A custom arrangement timeline overrides both for the
+// sections it covers, so its blocks must add up to those totals.
+// Renders keep the upload's format, bit depth and sample rate unless told
+// otherwise; MP3s are encoded at 320 kbps unless mp3Bitrate is given.
+export const processingSettingsSchema = z
+	.object({
+		introLength: z.number().min(8).max(64).default(16),
+		outroLength: z.number().min(8).max(64).default(16),
+		preserveVocals: z.boolean().default(true),
+		vocalMode: z.enum(vocalModes).optional(),
+		beatDetection: z.enum(["auto", "librosa", "madmom"]).default("auto"),
+		seed: z
+			.number()
+			.int()
+			.min(0)
+			.max(2 ** 31 - 1)
+			.optional(),
+		introArrangement: z
+			.array(z.enum(arrangementStems))
+			.min(1)
+			.max(8)
+			.optional(),
+		arrangement: arrangementSchema.optional(),
+		outputFormat: z.enum(outputFormats).optional(),
+		mp3Bitrate: oneOf(mp3Bitrates).optional(),
+		bitDepth: oneOf(bitDepths).optional(),
+		sampleRate: oneOf(sampleRates).optional(),
+	})
+	.transform((settings) => {
+		const vocalMode: VocalMode =
+			settings.vocalMode ?? (settings.preserveVocals ? "full" : "instrumental");
+		return {
+			...settings,
+			vocalMode,
+			preserveVocals: vocalMode !== "instrumental",
+		};
+	})
+	.superRefine((settings, ctx) => {
+		const { intro, outro } = settings.arrangement ?? {};
+
+		// Only the full vocal mode keeps a vocal stem outside the main body
+		const vocalStems = {
+			introArrangement: settings.introArrangement,
+			intro: intro?.map((block) => block.stem),
+			outro: outro?.map((block) => block.stem),
+		};
+		for (const [section, stems] of Object.entries(vocalStems)) {
+			if (settings.vocalMode !== "full" && stems?.includes("vocals")) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path:
+						section === "introArrangement"
+							? [section]
+							: ["arrangement", section],
+					message: "A vocals block needs vocals throughout the mix",
+				});
+			}
+		}
+
+		if (intro && countBars(intro) !== settings.introLength) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["arrangement", "intro"],
+				message: `Intro blocks add up to ${countBars(intro)} bars, expected ${
+					settings.introLength
+				}`,
+			});
+		}
+		if (outro && countBars(outro) !== settings.outroLength) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["arrangement", "outro"],
+				message: `Outro blocks add up to ${countBars(outro)} bars, expected ${
+					settings.outroLength
+				}`,
+			});
+		}
+
+		if (settings.outputFormat === "mp3" && settings.bitDepth) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["bitDepth"],
+				message: "Bit depth only applies to WAV, AIFF and FLAC",
+			});
+		}
+		if (settings.outputFormat !== "mp3" && settings.mp3Bitrate) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["mp3Bitrate"],
+				message: "MP3 bitrate only applies to MP3 output",
+			});
+		}
+		if (
+			settings.outputFormat === "mp3" &&
+			settings.sampleRate &&
+			settings.sampleRate > 48000
+		) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["sampleRate"],
+				message: "MP3 supports sample rates up to 48000 Hz",
+			});
+		}
+	});
+
 export type ProcessingSettings = z.infer<typeof processingSettingsSchema>;
+
+// Pipeline stages in order. audioProcessor.py reports detecting_beats
+// through exporting; the Node worker adds queued and finalizing.
+export const processingStages = [
+	"queued",
+	"detecting_beats",
+	"separating",
+	"extending",
+	"exporting",
+	"finalizing",
+] as const;
+
+export type ProcessingStage = (typeof processingStages)[number];
+
+// Failure codes reported by audioProcessor.py. UNKNOWN also covers crashes
+// that never reached the script's own error handling.
+export const processingErrorCodes = [
+	"BEAT_DETECTION_FAILED",
+	"SEPARATION_FAILED",
+	"NOT_ENOUGH_BEATS",
+	"UNSUPPORTED_FORMAT",
+	"UNKNOWN",
+] as const;
+
+export type ProcessingErrorCode = (typeof processingErrorCodes)[number];
+
+// Beats and downbeats detected in a track or rendered version, in seconds.
+// Also the response of GET /api/tracks/:id/beatgrid.
+export interface BeatGrid {
+	bpm: number;
+	confidence: number; // 0..1, how steady the beat intervals are
+	firstDownbeat: number;
+	beats: number[];
+	downbeats: number[];
+	manual?: boolean; // corrected in the editor; renders use it as is
+}
+
+// Tempo changes of a variable-tempo track: each segment's bpm holds from its
+// start (seconds) until the next segment starts. The first starts at 0.
+export interface TempoSegment {
+	start: number;
+	bpm: number;
+}
+
+export type TempoMap = TempoSegment[];
+
+// Body of PUT /api/tracks/:id/beatgrid. The stored grid is rebuilt at a
+// constant tempo from these, see buildBeatGrid in shared/beatGrid.ts.
+export const beatGridCorrectionSchema = z.object({
+	bpm: z.number().min(40).max(250),
+	firstDownbeat: z.number().min(0),
+});
+
+export type BeatGridCorrection = z.infer<typeof beatGridCorrectionSchema>;
+
+// Response of GET /api/tracks/:id/peaks: the minimum and maximum sample of
+// each equal slice of the audio, normalised to -1..1
+export interface WaveformPeaks {
+	duration: number; // seconds
+	min: number[];
+	max: number[];
+}
+
+// Response of GET /api/tracks/:id/status
+export interface TrackStatusResponse {
+	status: string;
+	job: {
+		id: number;
+		status: string;
+		stage: ProcessingStage;
+		progress: number;
+		attempts: number;
+		maxAttempts: number;
+		queuePosition: number;
+		errorCode: ProcessingErrorCode | null;
+		errorMessage: string | null;
+	} | null;
+}
+
+// Events pushed to clients over the /ws WebSocket, one per track change
+export type TrackEvent =
+	| {
+			type: "status";
+			trackId: number;
+			status: string;
+			jobId?: number;
+			queuePosition?: number;
+	  }
+	| {
+			type: "progress";
+			trackId: number;
+			jobId: number;
+			stage: ProcessingStage;
+			progress: number;
+	  }
+	| { type: "queue"; trackId: number; jobId: number; queuePosition: number }
+	| { type: "completed"; trackId: number; jobId: number }
+	| {
+			type: "error";
+			trackId: number;
+			jobId: number;
+			code: ProcessingErrorCode;
+			message: string;
+	  };
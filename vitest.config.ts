@@ -0,0 +1,21 @@
+/** @format */
+
+import { defineConfig } from "vitest/config";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// Server and shared code tests; they run in Node against mocked storage
+export default defineConfig({
+	resolve: {
+		alias: {
+			"@": path.resolve(__dirname, "client", "src"),
+			"@shared": path.resolve(__dirname, "shared"),
+		},
+	},
+	test: {
+		environment: "node",
+		include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+	},
+});